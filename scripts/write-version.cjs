@@ -0,0 +1,21 @@
+/**
+ * @author Luuxis
+ * Luuxis License v1.0 (voir fichier LICENSE pour les détails en FR/EN)
+ */
+
+// Writes the package version into src/utils/version.ts, so both the CommonJS
+// and the ESM builds know it without reading package.json at runtime.
+const fs = require('fs');
+const path = require('path');
+
+const { version } = require('../package.json');
+const target = path.join(__dirname, '../src/utils/version.ts');
+
+fs.writeFileSync(target, `/**
+ * @author Luuxis
+ * Luuxis License v1.0 (voir fichier LICENSE pour les détails en FR/EN)
+ */
+
+/** Version of minecraft-java-core. Generated from package.json by scripts/write-version.cjs. */
+export const PACKAGE_VERSION = '${version}';
+`);
@@ -9,6 +9,23 @@ import Microsoft from './Authenticator/Microsoft.js';
 import * as Mojang from './Authenticator/Mojang.js';
 import Status from './StatusServer/status.js';
 import Downloader from './utils/Downloader.js';
+import TransferControl from './utils/TransferControl.js';
+import MinecraftSession from './Minecraft/Minecraft-Session.js';
+import MinecraftLogParser from './Minecraft/Minecraft-Logs.js';
+import MinecraftScript from './Minecraft/Minecraft-Script.js';
+import MinecraftQuarantine from './Minecraft/Minecraft-Quarantine.js';
+import VersionCatalog from './Minecraft/Minecraft-Versions.js';
+import LauncherProfiles from './Minecraft/Minecraft-Profiles.js';
+import {
+    MojangProvider,
+    AzulProvider,
+    AdoptiumProvider,
+    MicrosoftProvider,
+    CorrettoProvider,
+    CustomProvider,
+    JavaDiscovery,
+    JavaManager
+} from './Minecraft-Java/index.js';
 
 // Re-export types for consumers
 export type {
@@ -20,14 +37,62 @@ export type {
     LoaderType,
     Authenticator,
     MinecraftVersionJSON,
+    MinecraftVersionType,
+    CatalogVersion,
+    VersionCatalogFilter,
+    VanillaLauncherProfile,
+    ProfileLaunchOptions,
+    ImportedProfile,
     JavaDownloadResult,
     DownloadFile,
     ScreenOptions,
+    QuickPlayOptions,
     MemoryOptions,
     JavaOptions,
+    JavaProvider,
+    JavaProviderName,
+    JavaRuntimeRequest,
+    JavaPackage,
+    JavaArchivePackage,
+    JavaFilesPackage,
+    JavaArchiveType,
+    JavaChecksum,
+    JavaInstallation,
+    JavaInstallationSource,
+    JavaRuntimeInfo,
+    JavaRuntimeUpdate,
+    JavaPruneOptions,
+    JavaManagerOptions,
+    JavaRequirement,
+    JavaCompatibilityIssue,
+    JavaCompatibilityError,
     MicrosoftAuthResponse,
     AZauthUser,
     MojangAuthResponse,
+    GameSessionExit,
+    GameSessionInfo,
+    MinecraftLogRecord,
+    MinecraftLogLevel,
+    MinecraftCrashReport,
+    MinecraftCrashKind,
+    LaunchPlan,
+    LaunchScriptFormat,
+    DownloaderOptions,
+    DownloadRetryPolicy,
+    DownloadSummary,
+    DownloadFailure,
+    DownloadCorruption,
+    DownloadRetry,
+    SharedStoreOptions,
+    SharedStoreMode,
+    InstallationReport,
+    InstallationIssue,
+    InstallationCategoryReport,
+    RepairResult,
+    CleanupOptions,
+    CleanupReport,
+    QuarantineEntry,
+    QuarantinePruneOptions,
 } from './types.js';
 
 export {
@@ -36,5 +101,20 @@ export {
     Microsoft as Microsoft,
     Mojang as Mojang,
     Status as Status,
-    Downloader as Downloader
+    Downloader as Downloader,
+    TransferControl as TransferControl,
+    MinecraftSession as MinecraftSession,
+    MinecraftLogParser as MinecraftLogParser,
+    MinecraftScript as MinecraftScript,
+    MinecraftQuarantine as MinecraftQuarantine,
+    VersionCatalog as VersionCatalog,
+    LauncherProfiles as LauncherProfiles,
+    MojangProvider as MojangProvider,
+    AzulProvider as AzulProvider,
+    AdoptiumProvider as AdoptiumProvider,
+    MicrosoftProvider as MicrosoftProvider,
+    CorrettoProvider as CorrettoProvider,
+    CustomProvider as CustomProvider,
+    JavaDiscovery as JavaDiscovery,
+    JavaManager as JavaManager
 };
\ No newline at end of file
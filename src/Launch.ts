@@ -13,11 +13,18 @@ import librariesMinecraft from './Minecraft/Minecraft-Libraries.js';
 import assetsMinecraft from './Minecraft/Minecraft-Assets.js';
 import loaderMinecraft from './Minecraft/Minecraft-Loader.js';
 import javaMinecraft from './Minecraft/Minecraft-Java.js';
-import bundleMinecraft from './Minecraft/Minecraft-Bundle.js';
-import argumentsMinecraft from './Minecraft/Minecraft-Arguments.js';
-
-import { isold } from './utils/Index.js';
+import bundleMinecraft, { DEFAULT_PROTECTED } from './Minecraft/Minecraft-Bundle.js';
+import argumentsMinecraft, { DEFAULT_JVM_PRESET } from './Minecraft/Minecraft-Arguments.js';
+import MinecraftSession from './Minecraft/Minecraft-Session.js';
+import MinecraftLogParser from './Minecraft/Minecraft-Logs.js';
+import MinecraftCrash from './Minecraft/Minecraft-Crash.js';
+import JavaManager from './Minecraft-Java/manager.js';
+import { checkJavaCompatibility, getJavaRequirement } from './Minecraft-Java/compatibility.js';
+
+import { getGameDirectory, isold } from './utils/Index.js';
 import Downloader from './utils/Downloader.js';
+import TransferControl from './utils/TransferControl.js';
+import { PACKAGE_VERSION } from './utils/version.js';
 import type {
 	LaunchOptions,
 	LaunchArguments,
@@ -26,6 +33,14 @@ import type {
 	MinecraftVersionJSON,
 	JavaDownloadResult,
 	DownloadFile,
+	DownloadRetry,
+	DownloadCorruption,
+	MinecraftLogRecord,
+	MinecraftCrashReport,
+	LaunchPlan,
+	InstallationReport,
+	RepairResult,
+	CleanupReport,
 } from './types.js';
 
 type LaunchInputOptions = Partial<Omit<LaunchOptions, 'authenticator' | 'loader' | 'java' | 'screen' | 'memory'>> & {
@@ -38,10 +53,53 @@ type LaunchInputOptions = Partial<Omit<LaunchOptions, 'authenticator' | 'loader'
 
 export type LaunchOPTS = LaunchInputOptions;
 
+/** Number of output lines kept per session to classify crashes without a report file */
+const CRASH_TAIL_LINES = 200;
+
 export default class Launch extends EventEmitter {
 	options!: LaunchOptions;
+	sessions: MinecraftSession[] = [];
+	private transfer = new TransferControl();
+
+	async Launch(opt: LaunchInputOptions = {}): Promise<MinecraftSession | void> {
+		if (!this.setOptions(opt)) return;
+		return this.start();
+	}
+
+	/**
+	 * Dry run: downloads and installs the game like Launch() does, then returns
+	 * the resolved launch plan instead of spawning Java.
+	 *
+	 * @param opt Launch options; reuses the last options when omitted
+	 */
+	async prepare(opt?: LaunchInputOptions): Promise<LaunchPlan | void> {
+		if (opt && !this.setOptions(opt)) return;
+		if (!this.options) { this.emit('error', { error: 'Launch options not set' }); return; }
+		return this.buildPlan();
+	}
+
+	/**
+	 * Pauses every download of this launcher (game files, Java, loader)
+	 * at its next chunk.
+	 */
+	pause(): void {
+		this.transfer.pause();
+	}
 
-	async Launch(opt: LaunchInputOptions = {}) {
+	resume(): void {
+		this.transfer.resume();
+	}
+
+	/**
+	 * Changes the download bandwidth limit while downloads are running.
+	 *
+	 * @param bytesPerSecond New limit, 0 for unlimited
+	 */
+	setMaxSpeed(bytesPerSecond: number): void {
+		this.transfer.setMaxSpeed(bytesPerSecond);
+	}
+
+	private setOptions(opt: LaunchInputOptions): boolean {
 		const defaultOptions: LaunchOptions = {
 			url: opt.url ?? null,
 			authenticator: opt.authenticator,
@@ -49,11 +107,34 @@ export default class Launch extends EventEmitter {
 			path: opt.path ?? '.Minecraft',
 			version: opt.version ?? 'latest_release',
 			instance: opt.instance ?? null,
+			gameDir: opt.gameDir ?? null,
 			detached: opt.detached ?? false,
 			intelEnabledMac: opt.intelEnabledMac ?? false,
 			ignore_log4j: opt.ignore_log4j ?? false,
 			downloadFileMultiple: opt.downloadFileMultiple ?? 5,
 			bypassOffline: opt.bypassOffline ?? false,
+			offline: opt.offline ?? false,
+
+			signal: opt.signal,
+
+			downloader: {
+				retry: opt.downloader?.retry ?? {},
+				mirrors: opt.downloader?.mirrors ?? {},
+				maxSpeed: opt.downloader?.maxSpeed ?? 0,
+				signal: opt.signal,
+				control: this.transfer
+			},
+
+			store: {
+				path: opt.store?.path ?? null,
+				mode: opt.store?.mode ?? 'hardlink'
+			},
+
+			cache: {
+				enable: opt.cache?.enable ?? true,
+				path: opt.cache?.path,
+				ttl: opt.cache?.ttl ?? {}
+			},
 
 			loader: {
 				path: opt.loader?.path ?? './loader',
@@ -65,14 +146,29 @@ export default class Launch extends EventEmitter {
 			mcp: opt.mcp ?? null,
 
 			verify: opt.verify ?? false,
+			deep: opt.deep ?? false,
 			ignored: opt.ignored ?? [],
+			cleanup: {
+				quarantine: opt.cleanup?.quarantine ?? true,
+				dryRun: opt.cleanup?.dryRun ?? false,
+				protected: opt.cleanup?.protected ?? DEFAULT_PROTECTED
+			},
 			JVM_ARGS: opt.JVM_ARGS ?? [],
+			JVM_PRESET: opt.JVM_PRESET ?? DEFAULT_JVM_PRESET,
 			GAME_ARGS: opt.GAME_ARGS ?? [],
+			launcher: {
+				name: opt.launcher?.name ?? 'minecraft-java-core',
+				version: opt.launcher?.version ?? PACKAGE_VERSION
+			},
 
 			java: {
 				path: opt.java?.path ?? null,
 				version: opt.java?.version ?? null,
 				type: opt.java?.type ?? 'jre',
+				provider: opt.java?.provider,
+				manifest: opt.java?.manifest,
+				discover: opt.java?.discover ?? false,
+				fallback: opt.java?.fallback ?? false,
 			},
 
 			screen: {
@@ -81,6 +177,8 @@ export default class Launch extends EventEmitter {
 				fullscreen: opt.screen?.fullscreen ?? false,
 			},
 
+			quickPlay: opt.quickPlay ?? null,
+
 			memory: {
 				min: opt.memory?.min ?? '1G',
 				max: opt.memory?.max ?? '2G'
@@ -88,10 +186,15 @@ export default class Launch extends EventEmitter {
 		} as LaunchOptions;
 
 		this.options = defaultOptions;
+		this.transfer.setMaxSpeed(this.options.downloader!.maxSpeed!);
+		if (this.options.store!.path) this.options.store!.path = path.resolve(this.options.store!.path).replace(/\\/g, '/');
+		this.options.downloader!.store = this.options.store;
 		this.options.path = path.resolve(this.options.path).replace(/\\/g, '/');
+		if (this.options.gameDir) this.options.gameDir = path.resolve(this.options.gameDir).replace(/\\/g, '/');
+		this.options.cache!.path = path.resolve(this.options.cache!.path ?? `${this.options.path}/cache/meta`).replace(/\\/g, '/');
 
 		if (this.options.mcp) {
-			if (this.options.instance) this.options.mcp = `${this.options.path}/instances/${this.options.instance}/${this.options.mcp}`
+			if (this.options.gameDir || this.options.instance) this.options.mcp = `${getGameDirectory(this.options)}/${this.options.mcp}`
 			else this.options.mcp = path.resolve(`${this.options.path}/${this.options.mcp}`).replace(/\\/g, '/')
 		}
 
@@ -100,83 +203,264 @@ export default class Launch extends EventEmitter {
 			this.options.loader.build = (this.options.loader.build ?? 'latest').toLowerCase()
 		}
 
-		if (!this.options.authenticator) return this.emit("error", { error: "Authenticator not found" });
+		if (!this.options.authenticator) { this.emit("error", { error: "Authenticator not found" }); return false; }
 		this.options.downloadFileMultiple = Math.min(30, Math.max(1, this.options.downloadFileMultiple ?? 5));
 		if (typeof this.options.loader.path !== 'string') this.options.loader.path = `./loader/${this.options.loader.type}`;
 		if (this.options.java.version && typeof this.options.java.type !== 'string') this.options.java.type = 'jre';
-		this.start();
+		return true;
 	}
 
 
-	async start() {
-		let data = await this.DownloadGame();
-		if (!data || 'error' in data) return this.emit('error', data);
-		let { minecraftJson, minecraftLoader, minecraftVersion, minecraftJava } = data;
+	async start(): Promise<MinecraftSession | void> {
+		const plan = await this.buildPlan();
+		if (!plan) return;
 
-		let minecraftArguments: LaunchArguments | { error: string } = await new argumentsMinecraft(this.options).GetArguments(minecraftJson, minecraftLoader ?? undefined);
-		if ('error' in minecraftArguments) return this.emit('error', minecraftArguments);
-		if (!minecraftArguments.mainClass) return this.emit('error', { error: 'Minecraft main class not found' });
-
-		let loaderArguments: LoaderArguments | { error: string } = await new loaderMinecraft(this.options).GetArguments(minecraftLoader, minecraftVersion);
-		if ('error' in loaderArguments) return this.emit('error', loaderArguments);
-
-		let Arguments: string[] = [
-			...minecraftArguments.jvm,
-			...minecraftArguments.classpath,
-			...loaderArguments.jvm,
-			minecraftArguments.mainClass,
-			...minecraftArguments.game,
-			...loaderArguments.game
-		]
-
-		let java: string = this.options.java.path ? this.options.java.path : minecraftJava.path;
-		let logs = this.options.instance ? `${this.options.path}/instances/${this.options.instance}` : this.options.path;
+		const { java, cwd: logs, arguments: Arguments, version: minecraftVersion } = plan;
 		if (!fs.existsSync(logs)) fs.mkdirSync(logs, { recursive: true });
 
 		let argumentsLogs: string = Arguments.join(' ')
-		const hiddenValues = [
-			this.options.authenticator.access_token,
-			this.options.authenticator.client_token,
-			this.options.authenticator.uuid,
-			this.options.authenticator.xboxAccount?.xuid
-		].filter((value): value is string => typeof value === 'string' && value.length > 0);
+		const hiddenValues = this.getHiddenValues();
 
 		for (const value of hiddenValues) argumentsLogs = argumentsLogs.replaceAll(value, '????????');
 		argumentsLogs = argumentsLogs.replaceAll(`${this.options.path}/`, '');
 		this.emit('data', `Launching with arguments ${argumentsLogs}`);
 
 		let minecraftDebug = spawn(java, Arguments, { cwd: logs, detached: this.options.detached })
+		const session = new MinecraftSession(minecraftDebug, this.options.instance ?? null, minecraftVersion, this.options.detached);
+		this.sessions.push(session);
+		new JavaManager({ path: this.options.path }).markUsed(java);
+
+		const outputTail: string[] = [];
+		const stdoutLogs = new MinecraftLogParser('stdout');
+		const stderrLogs = new MinecraftLogParser('stderr');
+		for (const parser of [stdoutLogs, stderrLogs]) {
+			parser.on('log', (record: MinecraftLogRecord) => {
+				outputTail.push(record.message, ...(record.throwable ? record.throwable.split('\n') : []));
+				if (outputTail.length > CRASH_TAIL_LINES) outputTail.splice(0, outputTail.length - CRASH_TAIL_LINES);
+				session.emit('log', record);
+				this.emit('log', record);
+			});
+		}
+
 		minecraftDebug.stdout.on('data', data => {
 			data = data.toString('utf-8');
 			for (const value of hiddenValues) data = data.replaceAll(value, '????????');
+			stdoutLogs.push(data);
 			return this.emit('data', data);
 		})
 		minecraftDebug.stderr.on('data', data => {
 			data = data.toString('utf-8');
 			for (const value of hiddenValues) data = data.replaceAll(value, '????????');
+			stderrLogs.push(data);
 			return this.emit('data', data);
 		})
-		minecraftDebug.on('close', code => {
+		minecraftDebug.on('error', err => {
+			this.emit('error', { error: `Failed to start Java: ${err.message}` });
+		})
+		minecraftDebug.on('close', (code, signal) => {
+			stdoutLogs.flush();
+			stderrLogs.flush();
+			this.sessions = this.sessions.filter(s => s !== session);
+
+			if (!session.stopRequested) {
+				const crash: MinecraftCrashReport = new MinecraftCrash(logs).analyse({ code, signal, uptime: session.uptime }, session.startedAt, outputTail, session.pid);
+				if ((code !== 0 && code !== null) || signal || crash.crashReportPath || crash.jvmErrorPath) {
+					session.emit('crash', crash);
+					this.emit('crash', crash);
+				}
+			}
 			return this.emit('close', code);
 		})
+
+		this.emit('session', session);
+		return session;
 	}
 
-	async DownloadGame(): Promise<{ minecraftJson: MinecraftVersionJSON; minecraftLoader: LoaderJSON | null; minecraftVersion: string; minecraftJava: JavaDownloadResult } | void> {
-		const InfoVersion = await new jsonMinecraft(this.options).GetInfoVersion();
-		let loaderJson: LoaderJSON | null = null;
-		if ('error' in InfoVersion) { this.emit('error', InfoVersion); return; }
+	/**
+	 * Installs the game, then resolves the java binary, working directory
+	 * and every argument needed to start it.
+	 */
+	private async buildPlan(): Promise<LaunchPlan | void> {
+		// DownloadGame() already emitted the error when it returns nothing
+		let data;
+		try {
+			data = await this.DownloadGame();
+		} catch (err: any) {
+			if (this.options.signal?.aborted) this.emit('cancelled');
+			else this.emit('error', { error: err?.message ?? String(err) });
+			return;
+		}
+		if (!data) return;
+		let { minecraftJson, minecraftLoader, minecraftVersion, minecraftJava } = data;
 
-		const { json, version } = InfoVersion;
+		let minecraftArguments: LaunchArguments | { error: string } = await new argumentsMinecraft(this.options).GetArguments(minecraftJson, minecraftLoader ?? undefined);
+		if ('error' in minecraftArguments) { this.emit('error', minecraftArguments); return; }
+		if (!minecraftArguments.mainClass) { this.emit('error', { error: 'Minecraft main class not found' }); return; }
 
-		const libraries = new librariesMinecraft(this.options)
+		let loaderArguments: LoaderArguments | { error: string } = await new loaderMinecraft(this.options).GetArguments(minecraftLoader, minecraftVersion);
+		if ('error' in loaderArguments) { this.emit('error', loaderArguments); return; }
 
-		const bundle = new bundleMinecraft(this.options)
-		const java = new javaMinecraft(this.options)
+		let Arguments: string[] = [
+			...minecraftArguments.jvm,
+			...minecraftArguments.classpath,
+			...loaderArguments.jvm,
+			minecraftArguments.mainClass,
+			...minecraftArguments.game,
+			...loaderArguments.game
+		]
+
+		const cpSeparator = process.platform === 'win32' ? ';' : ':';
+
+		return {
+			version: minecraftVersion,
+			loader: minecraftLoader?.id ?? null,
+			java: minecraftJava.path,
+			cwd: getGameDirectory(this.options),
+			jvm: [...minecraftArguments.jvm, ...loaderArguments.jvm],
+			classpath: minecraftArguments.classpath[1] ? minecraftArguments.classpath[1].split(cpSeparator) : [],
+			mainClass: minecraftArguments.mainClass,
+			game: [...minecraftArguments.game, ...loaderArguments.game],
+			arguments: Arguments
+		};
+	}
+
+	/**
+	 * Values that must never appear in logs or exported scripts
+	 * (access token, client token, uuid, xuid).
+	 */
+	getHiddenValues(): string[] {
+		return [
+			this.options.authenticator.access_token,
+			this.options.authenticator.client_token,
+			this.options.authenticator.uuid,
+			this.options.authenticator.xboxAccount?.xuid
+		].filter((value): value is string => typeof value === 'string' && value.length > 0);
+	}
 
+	/**
+	 * Returns the game sessions that are still running, optionally
+	 * restricted to a single instance.
+	 *
+	 * @param instance Instance name to filter on (null for the root instance)
+	 */
+	getSessions(instance?: string | null): MinecraftSession[] {
+		if (instance === undefined) return [...this.sessions];
+		return this.sessions.filter(s => s.instance === instance);
+	}
+
+	/**
+	 * Sends a signal to every running session (or every session of one instance)
+	 * and waits for them to exit.
+	 *
+	 * @param instance Instance name to filter on; all sessions if omitted
+	 * @param signal   The signal to send (default: SIGTERM)
+	 */
+	async stopAll(instance?: string | null, signal: NodeJS.Signals = 'SIGTERM'): Promise<void> {
+		const sessions = this.getSessions(instance);
+		for (const session of sessions) session.kill(signal);
+		await Promise.all(sessions.map(s => s.waitForExit()));
+	}
+
+	/**
+	 * Checks the installed game against the files the version requires, without
+	 * changing anything on disk. Loader files are not part of the report.
+	 *
+	 * @param opt Launch options; reuses the last options when omitted
+	 * @returns Missing, corrupt, size-mismatched, extra and ignored files, per category
+	 */
+	async verifyInstallation(opt?: LaunchInputOptions): Promise<InstallationReport | void> {
+		if (opt && !this.setOptions(opt)) return;
+		if (!this.options) { this.emit('error', { error: 'Launch options not set' }); return; }
+
+		const files = await this.collectGameFiles(false);
+		if (!files) return;
+
+		const bundle = new bundleMinecraft(this.options);
 		bundle.on('check', (progress: number, size: number, element: string) => {
 			this.emit('check', progress, size, element);
 		});
 
+		const report = await bundle.verify([...files.libraries, ...files.logging, ...files.assetsOther, ...files.assets, ...files.java.files]);
+		return { version: files.version, ...report };
+	}
+
+	/**
+	 * Fixes the problems listed in a report from verifyInstallation():
+	 * downloads missing and damaged files, rewrites generated ones
+	 * and removes the extra files.
+	 *
+	 * @param report A report returned by verifyInstallation()
+	 */
+	async repair(report: InstallationReport): Promise<RepairResult | void> {
+		if (!this.options) { this.emit('error', { error: 'Launch options not set' }); return; }
+
+		const issues = [...report.missing, ...report.corrupt, ...report.sizeMismatch];
+		const result: RepairResult = { downloaded: 0, rewritten: 0, removed: [], failed: [] };
+
+		const toDownload: DownloadFile[] = [];
+		for (const issue of issues) {
+			if (issue.content !== undefined) {
+				fs.mkdirSync(path.dirname(issue.path), { recursive: true, mode: 0o777 });
+				fs.writeFileSync(issue.path, issue.content, { encoding: 'utf8', mode: 0o755 });
+				result.rewritten++;
+				continue;
+			}
+			toDownload.push({
+				path: issue.path,
+				folder: path.dirname(issue.path).replace(/\\/g, '/'),
+				url: issue.url,
+				sha1: issue.expectedSha1,
+				size: issue.expectedSize,
+				type: issue.category
+			});
+		}
+
+		if (toDownload.length > 0) {
+			const downloader = new Downloader(this.options.downloader);
+			downloader.on('progress', (DL: number, totDL: number, element: string) => this.emit('progress', DL, totDL, element));
+			downloader.on('speed', (speed: number) => this.emit('speed', speed));
+			downloader.on('estimated', (time: number) => this.emit('estimated', time));
+			downloader.on('retry', (retry: DownloadRetry) => this.emit('retry', retry));
+			downloader.on('corrupt', (corrupt: DownloadCorruption) => this.emit('corrupt', corrupt));
+
+			const totalSize = toDownload.reduce((total, file) => total + (file.size ?? 0), 0);
+			const summary = await downloader.downloadFileMultiple(toDownload, totalSize, this.options.downloadFileMultiple, this.options.timeout);
+			result.downloaded = summary.downloaded;
+			result.failed = summary.failed;
+		}
+
+		const bundle = new bundleMinecraft(this.options);
+		bundle.on('cleanup', (cleanup: CleanupReport) => this.emit('cleanup', cleanup));
+		result.removed = bundle.removeFiles(report.extra);
+		return result;
+	}
+
+	/**
+	 * Resolves the version JSON and lists every file it requires.
+	 *
+	 * @param install When false, nothing is downloaded: a Java runtime forced
+	 *                through `java.version` (an archive) is left out.
+	 */
+	private async collectGameFiles(install: boolean = true): Promise<{
+		json: MinecraftVersionJSON;
+		version: string;
+		libraries: DownloadFile[];
+		logging: DownloadFile[];
+		assetsOther: DownloadFile[];
+		assets: DownloadFile[];
+		java: JavaDownloadResult;
+		/** Extracts the natives once downloaded; holds the version JSON */
+		nativesExtractor: librariesMinecraft;
+	} | void> {
+		const InfoVersion = await new jsonMinecraft(this.options).GetInfoVersion();
+		if ('error' in InfoVersion) { this.emit('error', InfoVersion); return; }
+
+		const { json, version, inherited } = InfoVersion;
+		this.options.signal?.throwIfAborted();
+
+		const libraries = new librariesMinecraft(this.options)
+		const java = new javaMinecraft(this.options)
+
 		java.on('progress', (progress: number, size: number, element: string) => {
 			this.emit('progress', progress, size, element)
 		});
@@ -185,19 +469,82 @@ export default class Launch extends EventEmitter {
 			this.emit('extract', progress)
 		});
 
-		const gameLibraries: DownloadFile[] = await libraries.Getlibraries(json);
+		const gameLibraries: DownloadFile[] = await libraries.Getlibraries(json, inherited);
 		const gameLogging: DownloadFile[] = await libraries.GetLogging();
 		const gameAssetsOther: DownloadFile[] = await libraries.GetAssetsOthers(this.options.url ?? null);
-		const gameAssets: DownloadFile[] = await new assetsMinecraft(this.options).getAssets(json);
-		const gameJava: JavaDownloadResult = this.options.java.path ? { files: [], path: this.options.java.path } : await java.getJavaFiles(json);
+		const gameAssets: DownloadFile[] | { error: string } = await new assetsMinecraft(this.options).getAssets(json)
+			.catch((err: Error) => ({ error: err.message }));
+		if ('error' in gameAssets) { this.emit('error', gameAssets); return; }
 
+		let gameJava: JavaDownloadResult;
+		if (this.options.java.path) gameJava = { files: [], path: this.options.java.path };
+		else if (!install && this.options.java.version) gameJava = { files: [], path: '' };
+		else gameJava = await java.getJavaFiles(json);
 
 		if ('error' in gameJava) { this.emit('error', gameJava); return; }
 
+		// A Java chosen by the user may not fit this version: check it before using it
+		if (install && (this.options.java.path || this.options.java.version)) {
+			const requirement = getJavaRequirement(json, version, this.options.loader.enable ? this.options.loader.type : null, this.options.intelEnabledMac);
+			const incompatible = await checkJavaCompatibility(gameJava.path, requirement);
+			if (incompatible) {
+				if (!this.options.java.fallback) { this.emit('error', incompatible); return; }
+				this.emit('fallback', incompatible);
+
+				// Without a Mojang component, a runtime of the required major version is picked
+				const managedJson = requirement.minMajor > (json.javaVersion?.majorVersion ?? 8) || requirement.maxMajor
+					? { ...json, javaVersion: { majorVersion: requirement.maxMajor ?? requirement.minMajor } }
+					: json;
+				const managed = new javaMinecraft({ ...this.options, java: { ...this.options.java, path: undefined, version: undefined } });
+				managed.on('progress', (progress: number, size: number, element: string) => this.emit('progress', progress, size, element));
+				gameJava = await managed.getJavaFiles(managedJson);
+				if ('error' in gameJava) { this.emit('error', gameJava); return; }
+			}
+		}
+
+		return {
+			json,
+			version,
+			libraries: gameLibraries,
+			logging: gameLogging,
+			assetsOther: gameAssetsOther,
+			assets: gameAssets,
+			java: gameJava,
+			nativesExtractor: libraries
+		};
+	}
+
+	async DownloadGame(): Promise<{ minecraftJson: MinecraftVersionJSON; minecraftLoader: LoaderJSON | null; minecraftVersion: string; minecraftJava: JavaDownloadResult } | void> {
+		const files = await this.collectGameFiles();
+		if (!files) return;
+
+		const { json, version, libraries: gameLibraries, logging: gameLogging, assetsOther: gameAssetsOther, assets: gameAssets, java: gameJava, nativesExtractor: libraries } = files;
+		let loaderJson: LoaderJSON | null = null;
+
+		const bundle = new bundleMinecraft(this.options)
+
+		bundle.on('check', (progress: number, size: number, element: string) => {
+			this.emit('check', progress, size, element);
+		});
+
+		bundle.on('cleanup', (cleanup: CleanupReport) => {
+			this.emit('cleanup', cleanup);
+		});
+
+		this.options.signal?.throwIfAborted();
 		const filesList: DownloadFile[] = await bundle.checkBundle([...gameLibraries, ...gameLogging, ...gameAssetsOther, ...gameAssets, ...gameJava.files]);
+		this.options.signal?.throwIfAborted();
+
+		if (this.options.offline && filesList.length > 0) {
+			const sample = filesList.slice(0, 5).map(file => file.path.replace(`${this.options.path}/`, ''));
+			this.emit('error', {
+				error: `Cannot launch offline: ${filesList.length} file(s) missing or corrupted (${sample.join(', ')}${filesList.length > sample.length ? ', ...' : ''})`
+			});
+			return;
+		}
 
 		if (filesList.length > 0) {
-			let downloader = new Downloader();
+			let downloader = new Downloader(this.options.downloader);
 			let totsize = await bundle.getTotalSize(filesList);
 
 			downloader.on("progress", (DL: number, totDL: number, element: string) => {
@@ -212,11 +559,22 @@ export default class Launch extends EventEmitter {
 				this.emit("estimated", time);
 			});
 
-			downloader.on("error", (e: Error) => {
-				this.emit("error", e);
+			downloader.on("retry", (retry: DownloadRetry) => {
+				this.emit("retry", retry);
 			});
 
-			await downloader.downloadFileMultiple(filesList, totsize, this.options.downloadFileMultiple, this.options.timeout);
+			downloader.on("corrupt", (corrupt: DownloadCorruption) => {
+				this.emit("corrupt", corrupt);
+			});
+
+			const summary = await downloader.downloadFileMultiple(filesList, totsize, this.options.downloadFileMultiple, this.options.timeout);
+			if (summary.failed.length > 0) {
+				this.emit("error", {
+					error: `${summary.failed.length} file(s) could not be downloaded`,
+					failed: summary.failed
+				});
+				return;
+			}
 		}
 
 		if (this.options.loader.enable === true) {
@@ -238,14 +596,18 @@ export default class Launch extends EventEmitter {
 				this.emit('patch', patch);
 			});
 
-			const jsonLoader = await loaderInstall.GetLoader(version, this.options.java.path ? this.options.java.path : gameJava.path)
+			const jsonLoader = await loaderInstall.GetLoader(version, gameJava.path)
 				.then((data: LoaderJSON) => data)
-				.catch((err: Error) => ({ error: err.message }));
+				.catch((err: Error) => {
+					this.options.signal?.throwIfAborted();
+					return { error: err.message };
+				});
 			if ('error' in jsonLoader) { this.emit('error', jsonLoader); return; }
 			loaderJson = jsonLoader;
 		}
 
-		if (this.options.verify) await bundle.checkFiles([...gameLibraries, ...gameAssetsOther, ...gameAssets, ...gameJava.files]);
+		// Offline, custom files from `url` are unknown: never delete anything
+		if (this.options.verify && !this.options.offline) await bundle.checkFiles([...gameLibraries, ...gameAssetsOther, ...gameAssets, ...gameJava.files]);
 
 		const natives = await libraries.natives(gameLibraries);
 		if (natives.length === 0) json.nativesList = false;
@@ -260,4 +622,4 @@ export default class Launch extends EventEmitter {
 			minecraftJava: gameJava
 		}
 	}
-}
\ No newline at end of file
+}
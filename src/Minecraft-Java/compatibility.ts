@@ -0,0 +1,71 @@
+/**
+ * @author Luuxis
+ * Luuxis License v1.0 (voir fichier LICENSE pour les détails en FR/EN)
+ */
+
+import JavaDiscovery from './discovery.js';
+import { getPlatformArch } from './helpers.js';
+import type { JavaCompatibilityError, JavaRequirement, MinecraftVersionJSON } from '../types.js';
+
+export type { JavaCompatibilityError, JavaRequirement };
+
+/**
+ * Works out the Java a version needs: the major version of its JSON, raised
+ * or capped by the loader (NeoForge needs 17, or 21 from 1.20.5; Forge before
+ * 1.13 only runs on Java 8), and the architecture natives are fetched for.
+ *
+ * @param json            The Minecraft version JSON
+ * @param version         The Minecraft version id (e.g. '1.20.4')
+ * @param loaderType      Enabled loader type, if any
+ * @param intelEnabledMac Whether x64 natives are used on Apple Silicon
+ */
+function getJavaRequirement(json: MinecraftVersionJSON, version: string, loaderType?: string | null, intelEnabledMac?: boolean): JavaRequirement {
+	const requirement: JavaRequirement = {
+		minMajor: json.javaVersion?.majorVersion ?? 8,
+		arch: getPlatformArch(intelEnabledMac).arch
+	};
+
+	// Release ids only ("1.20.4"); snapshots keep the JSON requirement
+	const match = version.match(/^1\.(\d+)(?:\.(\d+))?$/);
+	if (!match || !loaderType) return requirement;
+	const minor = Number(match[1]);
+	const patch = Number(match[2] ?? 0);
+
+	if (loaderType === 'neoforge') {
+		const neoforgeMin = minor > 20 || (minor === 20 && patch >= 5) ? 21 : 17;
+		requirement.minMajor = Math.max(requirement.minMajor, neoforgeMin);
+	} else if (loaderType === 'forge' && minor < 13) {
+		requirement.maxMajor = 8;
+	}
+	return requirement;
+}
+
+/**
+ * Runs a java binary and checks it against a requirement.
+ *
+ * @param javaPath    Path of the java binary
+ * @param requirement From getJavaRequirement()
+ * @returns null if it can run the game, otherwise the reason it cannot
+ */
+async function checkJavaCompatibility(javaPath: string, requirement: JavaRequirement): Promise<JavaCompatibilityError | null> {
+	const found = await new JavaDiscovery().probe(javaPath);
+	const expected = !requirement.maxMajor ? `Java ${requirement.minMajor} or newer`
+		: requirement.maxMajor === requirement.minMajor ? `Java ${requirement.minMajor}`
+			: `Java ${requirement.minMajor} to ${requirement.maxMajor}`;
+
+	if (!found) {
+		return { error: `${javaPath} could not be run, ${expected} is required`, kind: 'java_unusable', javaPath, required: requirement, found };
+	}
+	if (found.majorVersion < requirement.minMajor || (requirement.maxMajor && found.majorVersion > requirement.maxMajor)) {
+		return { error: `${javaPath} is Java ${found.majorVersion}, ${expected} is required`, kind: 'java_version', javaPath, required: requirement, found };
+	}
+	if (found.arch !== requirement.arch) {
+		return { error: `${javaPath} is built for ${found.arch} but the natives are ${requirement.arch}`, kind: 'java_arch', javaPath, required: requirement, found };
+	}
+	return null;
+}
+
+export {
+	getJavaRequirement,
+	checkJavaCompatibility
+};
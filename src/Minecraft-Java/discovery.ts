@@ -0,0 +1,182 @@
+/**
+ * @author Luuxis
+ * Luuxis License v1.0 (voir fichier LICENSE pour les détails en FR/EN)
+ */
+
+import { execFile } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+import { findJavaExecutable, getMajorVersion } from './helpers.js';
+import type { JavaInstallation, JavaInstallationSource } from '../types.js';
+
+export type { JavaInstallation, JavaInstallationSource };
+
+/** os.arch values reported by JVMs, to the names used by providers */
+const ARCH: Record<string, string> = {
+	amd64: 'x64',
+	x86_64: 'x64',
+	x64: 'x64',
+	x86: 'x86',
+	i386: 'x86',
+	i486: 'x86',
+	i586: 'x86',
+	i686: 'x86',
+	aarch64: 'aarch64',
+	arm64: 'aarch64',
+	arm: 'arm',
+	aarch32: 'arm'
+};
+
+/** How long a JVM may take to print its properties */
+const PROBE_TIMEOUT = 10000;
+
+/**
+ * Finds the Java installations of this machine: JAVA_HOME, PATH, the usual
+ * system folders (/usr/lib/jvm, /Library/Java/JavaVirtualMachines,
+ * Program Files), SDKMAN, asdf and the launcher's own runtime/ folder.
+ * Each binary is run with `-XshowSettings:properties -version` to read its
+ * vendor, version and architecture.
+ */
+export default class JavaDiscovery {
+	private readonly root: string | null;
+
+	/**
+	 * @param root Game directory (LaunchOptions.path) whose runtime/ folder is scanned too
+	 */
+	constructor(root?: string) {
+		this.root = root ? path.resolve(root) : null;
+	}
+
+	/**
+	 * Lists every working Java installation, in the order JAVA_HOME, PATH,
+	 * system folders, SDKMAN, asdf, runtime/. A binary reachable from
+	 * several places is reported once.
+	 */
+	public async scan(): Promise<JavaInstallation[]> {
+		const seen = new Set<string>();
+		const installations: JavaInstallation[] = [];
+
+		for (const { path: javaPath, source } of this.getCandidates()) {
+			let realPath: string;
+			try {
+				realPath = fs.realpathSync(javaPath);
+			} catch {
+				continue;
+			}
+			if (seen.has(realPath)) continue;
+			seen.add(realPath);
+
+			const installation = await this.probe(javaPath, source);
+			if (installation) installations.push(installation);
+		}
+		return installations;
+	}
+
+	/**
+	 * Returns the first installation of the given major version whose
+	 * architecture matches this machine (or `arch`), or null.
+	 *
+	 * @param majorVersion Required major version (e.g. 21)
+	 * @param arch         Required architecture, defaults to the one of this process
+	 */
+	public async findCompatible(majorVersion: number, arch: string = ARCH[os.arch()] ?? os.arch()): Promise<JavaInstallation | null> {
+		const installations = await this.scan();
+		return installations.find(java => java.majorVersion === majorVersion && java.arch === arch) ?? null;
+	}
+
+	/**
+	 * Runs a java binary and reads its properties.
+	 *
+	 * @param javaPath Path of the java binary
+	 * @param source   Reported as the installation source
+	 * @returns null if the binary does not run or does not look like a JVM
+	 */
+	public async probe(javaPath: string, source: JavaInstallationSource = 'PATH'): Promise<JavaInstallation | null> {
+		const output = await new Promise<string | null>(resolve => {
+			execFile(javaPath, ['-XshowSettings:properties', '-version'], { timeout: PROBE_TIMEOUT, windowsHide: true }, (err, stdout, stderr) => {
+				// The properties are printed on stderr
+				const text = `${stderr}${stdout}`;
+				resolve(text.includes('java.version') ? text : null);
+			});
+		});
+		if (!output) return null;
+
+		const properties: Record<string, string> = {};
+		for (const line of output.split(/\r?\n/)) {
+			const match = line.match(/^\s+([\w.]+) = (.*)$/);
+			if (match) properties[match[1]] = match[2].trim();
+		}
+
+		const version = properties['java.version'];
+		if (!version) return null;
+
+		const rawArch = properties['os.arch'] ?? '';
+		return {
+			path: javaPath,
+			home: properties['java.home'] ?? path.dirname(path.dirname(javaPath)),
+			version,
+			majorVersion: getMajorVersion(properties['java.specification.version'] ?? version),
+			vendor: properties['java.vendor'] ?? 'unknown',
+			arch: ARCH[rawArch] ?? rawArch,
+			is64Bit: properties['sun.arch.data.model'] ? properties['sun.arch.data.model'] === '64' : /64/.test(rawArch),
+			source
+		};
+	}
+
+	/** Java binaries that may exist, most explicit first. */
+	private getCandidates(): Array<{ path: string; source: JavaInstallationSource }> {
+		const binary = process.platform === 'win32' ? 'java.exe' : 'java';
+		const candidates: Array<{ path: string; source: JavaInstallationSource }> = [];
+		const add = (javaPath: string | null, source: JavaInstallationSource) => {
+			if (javaPath && fs.existsSync(javaPath)) candidates.push({ path: javaPath, source });
+		};
+		const addHomes = (folder: string, source: JavaInstallationSource) => {
+			for (const home of listFolders(folder)) add(findJavaExecutable(home), source);
+		};
+
+		if (process.env.JAVA_HOME) add(path.join(process.env.JAVA_HOME, 'bin', binary), 'JAVA_HOME');
+
+		for (const dir of (process.env.PATH ?? '').split(path.delimiter)) {
+			if (dir) add(path.join(dir, binary), 'PATH');
+		}
+
+		if (process.platform === 'win32') {
+			for (const programFiles of [process.env.ProgramFiles, process.env['ProgramFiles(x86)']]) {
+				if (!programFiles) continue;
+				for (const vendor of ['Java', 'Eclipse Adoptium', 'Microsoft', 'Zulu', 'Amazon Corretto', 'BellSoft']) {
+					addHomes(path.join(programFiles, vendor), 'system');
+				}
+			}
+		} else if (process.platform === 'darwin') {
+			addHomes('/Library/Java/JavaVirtualMachines', 'system');
+			addHomes(path.join(os.homedir(), 'Library/Java/JavaVirtualMachines'), 'system');
+		} else {
+			for (const folder of ['/usr/lib/jvm', '/usr/lib64/jvm', '/usr/java', '/opt/java']) addHomes(folder, 'system');
+		}
+
+		addHomes(path.join(process.env.SDKMAN_DIR ?? path.join(os.homedir(), '.sdkman'), 'candidates', 'java'), 'sdkman');
+		addHomes(path.join(process.env.ASDF_DATA_DIR ?? path.join(os.homedir(), '.asdf'), 'installs', 'java'), 'asdf');
+
+		// runtime/<component> (Mojang) and runtime/jre-<major>/<archive> (other providers)
+		if (this.root) {
+			for (const folder of listFolders(path.join(this.root, 'runtime'))) {
+				if (fs.existsSync(path.join(folder, 'bin'))) add(findJavaExecutable(folder), 'runtime');
+				else addHomes(folder, 'runtime');
+			}
+		}
+
+		return candidates;
+	}
+}
+
+function listFolders(folder: string): string[] {
+	try {
+		return fs.readdirSync(folder, { withFileTypes: true })
+			.filter(entry => entry.isDirectory() || entry.isSymbolicLink())
+			.map(entry => path.join(folder, entry.name));
+	} catch {
+		return [];
+	}
+}
@@ -0,0 +1,167 @@
+/**
+ * @author Luuxis
+ * Luuxis License v1.0 (voir fichier LICENSE pour les détails en FR/EN)
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type MetadataCache from '../utils/MetadataCache.js';
+import type { JavaArchiveType, JavaChecksum } from '../types.js';
+
+/**
+ * Maps `os.platform()` and `os.arch()` to the names used by providers
+ * ('windows' / 'macos' / 'linux', 'x64' / 'x86' / 'aarch64' / 'arm').
+ * Apple Silicon can optionally download x64 if `intelEnabledMac` is true.
+ */
+function getPlatformArch(intelEnabledMac?: boolean): { platform: string; arch: string } {
+	const platformMap: Record<string, string> = {
+		win32: 'windows',
+		darwin: 'macos',
+		linux: 'linux'
+	};
+	const archMap: Record<string, string> = {
+		x64: 'x64',
+		ia32: 'x86',
+		arm64: 'aarch64',
+		arm: 'arm'
+	};
+
+	const mappedPlatform = platformMap[os.platform()] || os.platform();
+	let mappedArch = archMap[os.arch()] || os.arch();
+
+	// Force x64 if Apple Silicon but user wants to use Intel-based Java
+	if (os.platform() === 'darwin' && os.arch() === 'arm64' && intelEnabledMac) {
+		mappedArch = 'x64';
+	}
+
+	return { platform: mappedPlatform, arch: mappedArch };
+}
+
+/**
+ * Guesses the archive format from a file name.
+ */
+function getArchiveType(fileName: string): JavaArchiveType | null {
+	if (/\.zip$/i.test(fileName)) return 'zip';
+	if (/\.(tar\.gz|tgz)$/i.test(fileName)) return 'tar.gz';
+	return null;
+}
+
+/**
+ * Removes the archive extension, giving the install folder name.
+ */
+function stripArchiveExtension(fileName: string): string {
+	return fileName.replace(/\.(zip|tar\.gz|tgz)$/i, '');
+}
+
+/**
+ * Major version of a Java version string: "1.8.0_51" → 8, "21.0.7" → 21.
+ */
+function getMajorVersion(version: string): number {
+	const [first, second] = version.split(/[._+-]/).map(Number);
+	return first === 1 ? second : first;
+}
+
+/** Time allowed for the HEAD request following a "latest" link */
+const RESOLVE_TIMEOUT = 10000;
+
+/**
+ * Follows the redirects of a "latest" download link to get the versioned
+ * URL it points at. Returns null when the vendor has no such file (404).
+ *
+ * @param url     The download link
+ * @param timeout Time allowed for the request, in ms
+ */
+async function resolveDownloadURL(url: string, timeout: number = RESOLVE_TIMEOUT): Promise<string | null> {
+	const response = await fetch(url, { method: 'HEAD', signal: AbortSignal.timeout(timeout) });
+	if (response.status === 404) return null;
+	if (!response.ok) throw new Error(`HTTP ${response.status} while resolving ${url}`);
+	return response.url || url;
+}
+
+/**
+ * Reads a published SHA-256 file (`<hash>` or `<hash>  <name>`).
+ * A missing or malformed checksum is not fatal: null is returned.
+ *
+ * @param cache Metadata cache, or null for checksums behind an unversioned
+ *              "latest" URL, which would go stale once a new build ships
+ * @param url   URL of the checksum file
+ */
+async function fetchSha256(cache: MetadataCache | null, url: string): Promise<JavaChecksum | null> {
+	try {
+		const text = cache
+			? await cache.text(url, 'java')
+			: await fetch(url, { signal: AbortSignal.timeout(RESOLVE_TIMEOUT) }).then(response => {
+				if (!response.ok) throw new Error(`HTTP ${response.status} for ${url}`);
+				return response.text();
+			});
+		const match = text.match(/\b[a-f0-9]{64}\b/i);
+		return match ? { algorithm: 'sha256', value: match[0].toLowerCase() } : null;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Finds the java binary of an extracted runtime. Archive layouts differ per
+ * vendor (`<root>/bin`, `<root>/Contents/Home/bin` on macOS...), so the
+ * provider hint is tried first, then the folder is searched a few levels deep.
+ *
+ * @param home Folder the runtime was extracted into
+ * @param hint Path of the binary relative to `home`, if known
+ * @returns The absolute path of the binary, or null
+ */
+function findJavaExecutable(home: string, hint?: string): string | null {
+	try {
+		if (!fs.statSync(home).isDirectory()) return null;
+	} catch {
+		return null;
+	}
+	if (hint && isFile(path.join(home, hint))) return path.join(home, hint);
+
+	const binary = process.platform === 'win32' ? 'java.exe' : 'java';
+	let level = [home];
+
+	for (let depth = 0; depth < 4 && level.length; depth++) {
+		const next: string[] = [];
+
+		for (const dir of level) {
+			for (const candidate of [path.join(dir, 'bin', binary), path.join(dir, 'Contents', 'Home', 'bin', binary)]) {
+				if (isFile(candidate)) return candidate;
+			}
+
+			// Zip archives store the macOS "bin" symlink as a text file holding its target
+			const bin = path.join(dir, 'bin');
+			if (isFile(bin)) {
+				const target = path.join(dir, fs.readFileSync(bin, 'utf8').trim());
+				for (const candidate of [path.join(target, binary), path.join(target, 'Contents', 'Home', 'bin', binary)]) {
+					if (isFile(candidate)) return candidate;
+				}
+			}
+
+			for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+				if (entry.isDirectory()) next.push(path.join(dir, entry.name));
+			}
+		}
+		level = next;
+	}
+	return null;
+}
+
+function isFile(filePath: string): boolean {
+	try {
+		return fs.statSync(filePath).isFile();
+	} catch {
+		return false;
+	}
+}
+
+export {
+	getPlatformArch,
+	getArchiveType,
+	stripArchiveExtension,
+	getMajorVersion,
+	resolveDownloadURL,
+	fetchSha256,
+	findJavaExecutable
+};
@@ -0,0 +1,60 @@
+/**
+ * @author Luuxis
+ * Luuxis License v1.0 (voir fichier LICENSE pour les détails en FR/EN)
+ */
+
+import type { JavaOptions, JavaProvider, JavaProviderName } from '../types.js';
+
+// Provider implementations
+import MojangProvider from './providers/mojang.js';
+import AzulProvider from './providers/azul.js';
+import AdoptiumProvider from './providers/adoptium.js';
+import MicrosoftProvider from './providers/microsoft.js';
+import CorrettoProvider from './providers/corretto.js';
+import CustomProvider from './providers/custom.js';
+import JavaDiscovery from './discovery.js';
+import JavaManager from './manager.js';
+import { getJavaRequirement, checkJavaCompatibility } from './compatibility.js';
+
+export type { JavaProvider, JavaProviderName };
+
+/**
+ * Builds the ordered list of providers selected by `java.provider`.
+ * Throws on an unknown name, or on 'custom' without `java.manifest`.
+ *
+ * @param java The Java options of the launcher
+ */
+function getJavaProviders(java: JavaOptions): JavaProvider[] {
+	const selected = java.provider ?? (java.version ? ['azul'] : ['mojang', 'azul']);
+
+	return (Array.isArray(selected) ? selected : [selected]).map(provider => {
+		if (typeof provider !== 'string') return provider;
+
+		switch (provider) {
+			case 'mojang': return new MojangProvider();
+			case 'azul': return new AzulProvider();
+			case 'adoptium': return new AdoptiumProvider();
+			case 'microsoft': return new MicrosoftProvider();
+			case 'corretto': return new CorrettoProvider();
+			case 'custom':
+				if (!java.manifest) throw new Error("The 'custom' Java provider needs java.manifest");
+				return new CustomProvider(java.manifest);
+			default:
+				throw new Error(`Unknown Java provider: ${provider}`);
+		}
+	});
+}
+
+export {
+	getJavaProviders,
+	JavaDiscovery,
+	JavaManager,
+	getJavaRequirement,
+	checkJavaCompatibility,
+	MojangProvider,
+	AzulProvider,
+	AdoptiumProvider,
+	MicrosoftProvider,
+	CorrettoProvider,
+	CustomProvider
+};
@@ -0,0 +1,335 @@
+/**
+ * @author Luuxis
+ * Luuxis License v1.0 (voir fichier LICENSE pour les détails en FR/EN)
+ */
+
+import { EventEmitter } from 'events';
+import fs from 'fs';
+import path from 'path';
+
+import { getFileHash } from '../utils/Index.js';
+import Downloader from '../utils/Downloader.js';
+import MetadataCache from '../utils/MetadataCache.js';
+import MojangProvider from './providers/mojang.js';
+import { findJavaExecutable, getPlatformArch, stripArchiveExtension } from './helpers.js';
+import type {
+	DownloadFile,
+	JavaFileItem,
+	JavaManagerOptions,
+	JavaPruneOptions,
+	JavaRuntimeInfo,
+	JavaRuntimeUpdate
+} from '../types.js';
+
+export type { JavaManagerOptions, JavaPruneOptions, JavaRuntimeInfo, JavaRuntimeUpdate };
+
+/** Runtimes unused for this long are removed by prune() */
+const DEFAULT_UNUSED_FOR = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * Lists, removes and updates the runtimes installed under `<path>/runtime/`:
+ * Mojang components (`runtime/<component>`) and archive runtimes from the
+ * other providers (`runtime/jre-<major>/<archive name>`).
+ *
+ * When each runtime was last used is recorded in `runtime/usage.json` by
+ * markUsed(), which Launch calls every time the game starts.
+ *
+ * Emits "progress" (downloaded, size, element) during update().
+ */
+export default class JavaManager extends EventEmitter {
+	private readonly options: JavaManagerOptions;
+	private readonly folder: string;
+
+	constructor(options: JavaManagerOptions) {
+		super();
+		this.options = options;
+		this.folder = path.resolve(options.path, 'runtime');
+	}
+
+	/** Lists the installed runtimes. */
+	public list(): JavaRuntimeInfo[] {
+		const usage = this.readUsage();
+		const runtimes: JavaRuntimeInfo[] = [];
+
+		for (const name of listFolders(this.folder)) {
+			if (name.endsWith('.old')) this.recover(path.join(this.folder, name.slice(0, -'.old'.length)));
+		}
+
+		for (const name of listFolders(this.folder)) {
+			// <component>.update / <component>.old are left by an interrupted update()
+			if (name.includes('.')) continue;
+
+			if (/^jre-\d+$/.test(name)) {
+				for (const sub of listFolders(path.join(this.folder, name))) {
+					if (sub.endsWith('.tmp')) continue;
+					runtimes.push(this.describe(`${name}/${sub}`, name, usage));
+				}
+			} else {
+				runtimes.push(this.describe(name, name, usage));
+			}
+		}
+		return runtimes;
+	}
+
+	/**
+	 * Deletes a runtime, along with its archive for archive runtimes.
+	 *
+	 * @param id Runtime id from list()
+	 * @returns false if no such runtime is installed
+	 */
+	public remove(id: string): boolean {
+		const runtime = this.list().find(entry => entry.id === id);
+		if (!runtime) return false;
+
+		fs.rmSync(runtime.folder, { recursive: true, force: true });
+
+		if (runtime.component !== runtime.id) {
+			const parent = path.join(this.folder, runtime.component);
+			const name = path.basename(runtime.folder);
+			for (const file of fs.readdirSync(parent)) {
+				if (file !== name && stripArchiveExtension(file) === name) fs.rmSync(path.join(parent, file), { force: true });
+			}
+			if (fs.readdirSync(parent).length === 0) fs.rmdirSync(parent);
+		}
+
+		const usage = this.readUsage();
+		delete usage[id];
+		this.writeUsage(usage);
+		return true;
+	}
+
+	/**
+	 * Removes the runtimes not used recently. A runtime never started since
+	 * usage is tracked counts from its install date.
+	 *
+	 * @returns The runtimes removed (or that would be, with `dryRun`)
+	 */
+	public prune(options: JavaPruneOptions = {}): JavaRuntimeInfo[] {
+		const limit = Date.now() - (options.unusedFor ?? DEFAULT_UNUSED_FOR);
+		const keep = options.keep ?? [];
+
+		const unused = this.list().filter(runtime =>
+			!keep.includes(runtime.id) && !keep.includes(runtime.component) &&
+			(runtime.lastUsed ?? runtime.installedAt) < limit
+		);
+		if (!options.dryRun) for (const runtime of unused) this.remove(runtime.id);
+		return unused;
+	}
+
+	/**
+	 * Installs the latest version of a Mojang component from the runtime
+	 * manifest. The new files are assembled in `runtime/<component>.update`,
+	 * reusing unchanged files of the installed version, and only replace it
+	 * once every file matches its SHA-1; on failure the installed runtime is kept.
+	 *
+	 * @param component Mojang component (e.g. 'java-runtime-delta')
+	 * @throws If the component does not exist for this platform or the download fails
+	 */
+	public async update(component: string): Promise<JavaRuntimeUpdate> {
+		const platform = getPlatformArch(this.options.intelEnabledMac);
+		// The major version is only used to pick a component when none is given
+		const runtime = await new MojangProvider().resolve(
+			{ majorVersion: 0, component, imageType: 'jre', ...platform },
+			new MetadataCache(this.options.cache)
+		);
+		if (!runtime) throw new Error(`No Mojang runtime '${component}' for ${platform.platform}-${platform.arch}`);
+
+		const folder = path.join(this.folder, component);
+		this.recover(folder);
+		const previousVersion = this.readVersion(folder);
+		if (this.isInstalled(folder, runtime.version, runtime.files)) {
+			fs.writeFileSync(path.join(folder, '.version'), runtime.version);
+			return { component, updated: false, previousVersion: runtime.version, version: runtime.version };
+		}
+
+		const staging = `${folder}.update`;
+		fs.rmSync(staging, { recursive: true, force: true });
+
+		try {
+			const toDownload: DownloadFile[] = [];
+			for (const file of runtime.files) {
+				const target = path.join(staging, file.path);
+				const current = path.join(folder, file.path);
+				fs.mkdirSync(path.dirname(target), { recursive: true, mode: 0o777 });
+
+				if (await matches(current, file.sha1, file.size)) {
+					fs.copyFileSync(current, target);
+					continue;
+				}
+				toDownload.push({ ...file, path: target, folder: path.dirname(target) });
+			}
+
+			if (toDownload.length > 0) {
+				const downloader = new Downloader(this.options.downloader);
+				downloader.on('progress', (DL: number, totDL: number, element: string) => this.emit('progress', DL, totDL, element));
+
+				const totalSize = toDownload.reduce((total, file) => total + (file.size ?? 0), 0);
+				const summary = await downloader.downloadFileMultiple(toDownload, totalSize, this.options.downloadFileMultiple ?? 5, this.options.timeout);
+				if (summary.failed.length > 0) {
+					throw new Error(`${summary.failed.length} file(s) of ${component} could not be downloaded`);
+				}
+			}
+
+			for (const file of runtime.files) {
+				if (!(await matches(path.join(staging, file.path), file.sha1, file.size))) {
+					throw new Error(`${file.path} of ${component} does not match its SHA-1`);
+				}
+			}
+			fs.writeFileSync(path.join(staging, '.version'), runtime.version);
+
+			// Swap the folders; the old runtime is only deleted once the new one is in place
+			const old = `${folder}.old`;
+			fs.rmSync(old, { recursive: true, force: true });
+			if (fs.existsSync(folder)) fs.renameSync(folder, old);
+			try {
+				fs.renameSync(staging, folder);
+			} catch (err) {
+				// Runtime in use, other volume or full disk: put the installed one back
+				if (fs.existsSync(old) && !fs.existsSync(folder)) fs.renameSync(old, folder);
+				throw err;
+			}
+			fs.rmSync(old, { recursive: true, force: true });
+		} finally {
+			fs.rmSync(staging, { recursive: true, force: true });
+		}
+
+		return { component, updated: true, previousVersion, version: runtime.version };
+	}
+
+	/**
+	 * Records that the game was started with a java binary. Binaries outside
+	 * runtime/ are ignored.
+	 *
+	 * @param javaPath Path of the java binary used
+	 */
+	public markUsed(javaPath: string): void {
+		const relative = path.relative(this.folder, path.resolve(javaPath)).split(path.sep);
+		if (relative.length < 2 || relative[0] === '..') return;
+
+		const id = /^jre-\d+$/.test(relative[0]) ? `${relative[0]}/${relative[1]}` : relative[0];
+		const usage = this.readUsage();
+		usage[id] = Date.now();
+		this.writeUsage(usage);
+	}
+
+	/**
+	 * Puts back `<folder>.old` when an update() was interrupted between
+	 * moving the installed runtime aside and moving the new one in.
+	 */
+	private recover(folder: string): void {
+		const old = `${folder}.old`;
+		if (fs.existsSync(folder) || !fs.existsSync(old)) return;
+		try {
+			fs.renameSync(old, folder);
+		} catch {
+			// Still locked: retried on the next list() or update()
+		}
+	}
+
+	private describe(id: string, component: string, usage: Record<string, number>): JavaRuntimeInfo {
+		const folder = path.join(this.folder, id);
+		const javaPath = findJavaExecutable(folder);
+		const release = javaPath ? readRelease(path.dirname(path.dirname(javaPath))) : {};
+		const stat = fs.statSync(folder);
+
+		return {
+			id,
+			component,
+			folder,
+			path: javaPath,
+			version: release.JAVA_VERSION ?? this.readVersion(folder),
+			vendor: release.IMPLEMENTOR ?? null,
+			size: folderSize(folder),
+			lastUsed: usage[id] ?? null,
+			installedAt: stat.birthtimeMs || stat.mtimeMs
+		};
+	}
+
+	/**
+	 * Whether a component is already at `version`: its `.version` says so,
+	 * or (installed before update() wrote one) every file has the expected size.
+	 */
+	private isInstalled(folder: string, version: string, files: JavaFileItem[]): boolean {
+		try {
+			return fs.readFileSync(path.join(folder, '.version'), 'utf-8').trim() === version;
+		} catch {
+			if (!fs.existsSync(folder)) return false;
+		}
+		return files.every(file => {
+			try {
+				return fs.statSync(path.join(folder, file.path)).size === file.size;
+			} catch {
+				return false;
+			}
+		});
+	}
+
+	private readVersion(folder: string): string | null {
+		try {
+			return fs.readFileSync(path.join(folder, '.version'), 'utf-8').trim() || null;
+		} catch {
+			const javaPath = findJavaExecutable(folder);
+			return javaPath ? readRelease(path.dirname(path.dirname(javaPath))).JAVA_VERSION ?? null : null;
+		}
+	}
+
+	private readUsage(): Record<string, number> {
+		try {
+			return JSON.parse(fs.readFileSync(path.join(this.folder, 'usage.json'), 'utf-8'));
+		} catch {
+			return {};
+		}
+	}
+
+	private writeUsage(usage: Record<string, number>): void {
+		try {
+			fs.mkdirSync(this.folder, { recursive: true });
+			fs.writeFileSync(path.join(this.folder, 'usage.json'), JSON.stringify(usage, null, 4));
+		} catch {
+			// Usage tracking must never prevent a launch
+		}
+	}
+}
+
+/** Reads the KEY="value" lines of a JDK/JRE `release` file. */
+function readRelease(home: string): Record<string, string> {
+	const release: Record<string, string> = {};
+	try {
+		for (const line of fs.readFileSync(path.join(home, 'release'), 'utf-8').split(/\r?\n/)) {
+			const match = line.match(/^(\w+)="?(.*?)"?$/);
+			if (match) release[match[1]] = match[2];
+		}
+	} catch {
+		// No release file: version and vendor stay unknown
+	}
+	return release;
+}
+
+async function matches(filePath: string, sha1?: string, size?: number): Promise<boolean> {
+	try {
+		if (size !== undefined && fs.statSync(filePath).size !== size) return false;
+		return !sha1 || (await getFileHash(filePath)) === sha1;
+	} catch {
+		return false;
+	}
+}
+
+function listFolders(folder: string): string[] {
+	try {
+		return fs.readdirSync(folder, { withFileTypes: true })
+			.filter(entry => entry.isDirectory())
+			.map(entry => entry.name);
+	} catch {
+		return [];
+	}
+}
+
+function folderSize(folder: string): number {
+	let size = 0;
+	for (const entry of fs.readdirSync(folder, { withFileTypes: true })) {
+		const entryPath = path.join(folder, entry.name);
+		if (entry.isDirectory()) size += folderSize(entryPath);
+		else size += fs.lstatSync(entryPath).size;
+	}
+	return size;
+}
@@ -0,0 +1,59 @@
+/**
+ * @author Luuxis
+ * Luuxis License v1.0 (voir fichier LICENSE pour les détails en FR/EN)
+ */
+
+import { getArchiveType } from '../helpers.js';
+import type MetadataCache from '../../utils/MetadataCache.js';
+import type { JavaArchivePackage, JavaProvider, JavaRuntimeRequest } from '../../types.js';
+
+/** A release of the Adoptium "latest assets" API */
+interface AdoptiumRelease {
+	release_name: string;
+	version?: { openjdk_version?: string };
+	binary: { package: { name: string; link: string; checksum?: string; size?: number } };
+}
+
+/**
+ * Eclipse Temurin builds, from the Adoptium API. Falls back to the JDK
+ * when no JRE is published for the platform.
+ */
+export default class AdoptiumProvider implements JavaProvider {
+	public readonly name = 'adoptium';
+
+	public async resolve(request: JavaRuntimeRequest, cache: MetadataCache): Promise<JavaArchivePackage | null> {
+		const imageTypes = request.imageType === 'jre' ? ['jre', 'jdk'] : [request.imageType];
+
+		for (const imageType of imageTypes) {
+			const queryParams = new URLSearchParams({
+				architecture: request.arch,
+				image_type: imageType,
+				os: request.platform === 'macos' ? 'mac' : request.platform,
+				vendor: 'eclipse'
+			});
+
+			const releases = await cache.json<AdoptiumRelease[]>(`https://api.adoptium.net/v3/assets/latest/${request.majorVersion}/hotspot?${queryParams.toString()}`, 'java');
+			const release = Array.isArray(releases)
+				? releases.find(entry => getArchiveType(entry?.binary?.package?.name ?? ''))
+				: undefined;
+			if (!release) continue;
+
+			const javaPackage = release.binary.package;
+			const root = imageType === 'jre' ? `${release.release_name}-jre` : release.release_name;
+			const home = request.platform === 'macos' ? `${root}/Contents/Home` : root;
+
+			return {
+				kind: 'archive',
+				provider: this.name,
+				version: release.version?.openjdk_version ?? release.release_name,
+				url: javaPackage.link,
+				fileName: javaPackage.name,
+				archiveType: getArchiveType(javaPackage.name)!,
+				checksum: javaPackage.checksum ? { algorithm: 'sha256', value: javaPackage.checksum } : undefined,
+				size: javaPackage.size,
+				executable: `${home}/bin/${request.platform === 'windows' ? 'java.exe' : 'java'}`
+			};
+		}
+		return null;
+	}
+}
@@ -0,0 +1,51 @@
+/**
+ * @author Luuxis
+ * Luuxis License v1.0 (voir fichier LICENSE pour les détails en FR/EN)
+ */
+
+import type MetadataCache from '../../utils/MetadataCache.js';
+import type { JavaArchivePackage, JavaProvider, JavaRuntimeRequest } from '../../types.js';
+
+/** A package of the Azul metadata API */
+interface AzulPackage {
+	name: string;
+	download_url: string;
+	java_version?: number[];
+	sha256_hash?: string;
+	size?: number;
+}
+
+/**
+ * Azul Zulu builds, from the Azul metadata API.
+ */
+export default class AzulProvider implements JavaProvider {
+	public readonly name = 'azul';
+
+	public async resolve(request: JavaRuntimeRequest, cache: MetadataCache): Promise<JavaArchivePackage | null> {
+		// tar.gz keeps the symlinks and permissions a zip loses on Linux
+		const archiveType = request.platform === 'linux' ? 'tar.gz' : 'zip';
+		const queryParams = new URLSearchParams({
+			java_version: request.majorVersion.toString(),
+			os: request.platform,
+			arch: request.arch,
+			archive_type: archiveType,
+			java_package_type: request.imageType,
+			include_fields: 'sha256_hash,size'
+		});
+
+		const packages = await cache.json<AzulPackage[]>(`https://api.azul.com/metadata/v1/zulu/packages/?${queryParams.toString()}`, 'java');
+		if (!Array.isArray(packages) || packages.length === 0) return null;
+		const javaPackage = packages[0];
+
+		return {
+			kind: 'archive',
+			provider: this.name,
+			version: Array.isArray(javaPackage.java_version) ? javaPackage.java_version.join('.') : String(request.majorVersion),
+			url: javaPackage.download_url,
+			fileName: javaPackage.name,
+			archiveType,
+			checksum: javaPackage.sha256_hash ? { algorithm: 'sha256', value: javaPackage.sha256_hash } : undefined,
+			size: javaPackage.size
+		};
+	}
+}
@@ -0,0 +1,37 @@
+/**
+ * @author Luuxis
+ * Luuxis License v1.0 (voir fichier LICENSE pour les détails en FR/EN)
+ */
+
+import { fetchSha256, resolveDownloadURL } from '../helpers.js';
+import type { JavaArchivePackage, JavaProvider, JavaRuntimeRequest } from '../../types.js';
+
+/**
+ * Amazon Corretto, from the corretto.aws "latest" links. Only JDKs are published.
+ */
+export default class CorrettoProvider implements JavaProvider {
+	public readonly name = 'corretto';
+
+	public async resolve(request: JavaRuntimeRequest): Promise<JavaArchivePackage | null> {
+		const archiveType = request.platform === 'windows' ? 'zip' : 'tar.gz';
+		const file = `amazon-corretto-${request.majorVersion}-${request.arch}-${request.platform}-jdk.${archiveType}`;
+
+		const url = await resolveDownloadURL(`https://corretto.aws/downloads/latest/${file}`);
+		if (!url) return null;
+
+		// e.g. amazon-corretto-21.0.4.7.1-linux-x64.tar.gz
+		const fileName = decodeURIComponent(url.split('?')[0].split('/').pop()!);
+		// Only published for "latest": fetched uncached, right after the link was resolved
+		const checksum = await fetchSha256(null, `https://corretto.aws/downloads/latest_sha256/${file}`);
+
+		return {
+			kind: 'archive',
+			provider: this.name,
+			version: fileName.match(/corretto-([\d.]+?)-/)?.[1] ?? String(request.majorVersion),
+			url,
+			fileName,
+			archiveType,
+			checksum: checksum ?? undefined
+		};
+	}
+}
@@ -0,0 +1,74 @@
+/**
+ * @author Luuxis
+ * Luuxis License v1.0 (voir fichier LICENSE pour les détails en FR/EN)
+ */
+
+import { getArchiveType } from '../helpers.js';
+import type MetadataCache from '../../utils/MetadataCache.js';
+import type { JavaArchivePackage, JavaArchiveType, JavaProvider, JavaRuntimeRequest } from '../../types.js';
+
+/** One runtime listed in a custom manifest */
+interface CustomRuntime {
+	majorVersion: number;
+	platform: string;
+	arch: string;
+	/** 'jre' or 'jdk'; matches any image type when omitted */
+	imageType?: string;
+	version?: string;
+	url: string;
+	archiveType?: JavaArchiveType;
+	sha256?: string;
+	size?: number;
+	executable?: string;
+}
+
+/**
+ * Runtimes listed in a JSON manifest hosted by the launcher, for mirrors or
+ * in-house builds:
+ *
+ * { "runtimes": [{ "majorVersion": 21, "platform": "linux", "arch": "x64", "imageType": "jre",
+ *   "version": "21.0.4+7", "url": "https://…/jre-21-linux-x64.tar.gz", "sha256": "…" }] }
+ *
+ * `archiveType` defaults to the URL extension; `executable` is optional.
+ */
+export default class CustomProvider implements JavaProvider {
+	public readonly name = 'custom';
+	private readonly manifest: string;
+
+	/**
+	 * @param manifest URL of the manifest (LaunchOptions.java.manifest)
+	 */
+	constructor(manifest: string) {
+		this.manifest = manifest;
+	}
+
+	public async resolve(request: JavaRuntimeRequest, cache: MetadataCache): Promise<JavaArchivePackage | null> {
+		const manifest = await cache.json<{ runtimes?: CustomRuntime[] }>(this.manifest, 'java');
+		const candidates = (manifest.runtimes ?? []).filter(runtime =>
+			Number(runtime.majorVersion) === request.majorVersion &&
+			runtime.platform === request.platform &&
+			runtime.arch === request.arch &&
+			(!runtime.imageType || runtime.imageType === request.imageType || runtime.imageType === 'jdk')
+		);
+		// Prefer the requested image type, then a JDK which can stand in for a JRE
+		const runtime = candidates.find(entry => entry.imageType === request.imageType) ?? candidates[0];
+		if (!runtime) return null;
+
+		const url = new URL(runtime.url, this.manifest).toString();
+		const fileName = decodeURIComponent(new URL(url).pathname.split('/').pop()!);
+		const archiveType = runtime.archiveType ?? getArchiveType(fileName);
+		if (!archiveType) throw new Error(`Unknown archive type for ${url}`);
+
+		return {
+			kind: 'archive',
+			provider: this.name,
+			version: runtime.version ?? String(runtime.majorVersion),
+			url,
+			fileName,
+			archiveType,
+			checksum: runtime.sha256 ? { algorithm: 'sha256', value: runtime.sha256.toLowerCase() } : undefined,
+			size: runtime.size,
+			executable: runtime.executable
+		};
+	}
+}
@@ -0,0 +1,37 @@
+/**
+ * @author Luuxis
+ * Luuxis License v1.0 (voir fichier LICENSE pour les détails en FR/EN)
+ */
+
+import { fetchSha256, resolveDownloadURL } from '../helpers.js';
+import type MetadataCache from '../../utils/MetadataCache.js';
+import type { JavaArchivePackage, JavaProvider, JavaRuntimeRequest } from '../../types.js';
+
+/**
+ * Microsoft Build of OpenJDK. Only JDKs are published, for x64 and aarch64.
+ */
+export default class MicrosoftProvider implements JavaProvider {
+	public readonly name = 'microsoft';
+
+	public async resolve(request: JavaRuntimeRequest, cache: MetadataCache): Promise<JavaArchivePackage | null> {
+		if (request.arch !== 'x64' && request.arch !== 'aarch64') return null;
+
+		const archiveType = request.platform === 'windows' ? 'zip' : 'tar.gz';
+		const url = await resolveDownloadURL(`https://aka.ms/download-jdk/microsoft-jdk-${request.majorVersion}-${request.platform}-${request.arch}.${archiveType}`);
+		if (!url) return null;
+
+		// e.g. microsoft-jdk-21.0.4-linux-x64.tar.gz
+		const fileName = decodeURIComponent(url.split('?')[0].split('/').pop()!);
+		const checksum = await fetchSha256(cache, `${url.split('?')[0]}.sha256sum.txt`);
+
+		return {
+			kind: 'archive',
+			provider: this.name,
+			version: fileName.match(/jdk-([\d.+]+?)-/)?.[1] ?? String(request.majorVersion),
+			url,
+			fileName,
+			archiveType,
+			checksum: checksum ?? undefined
+		};
+	}
+}
@@ -0,0 +1,90 @@
+/**
+ * @author Luuxis
+ * Luuxis License v1.0 (voir fichier LICENSE pour les détails en FR/EN)
+ */
+
+import { getMajorVersion } from '../helpers.js';
+import type MetadataCache from '../../utils/MetadataCache.js';
+import type { JavaFileItem, JavaFilesPackage, JavaProvider, JavaRuntimeRequest } from '../../types.js';
+
+const RUNTIMES_URL = 'https://launchermeta.mojang.com/v1/products/java-runtime/2ec0cc96c44e5a76b9c8b7c39df7210883d12871/all.json';
+
+/** Platform/arch to the keys of Mojang's all.json */
+const PLATFORMS: Record<string, Record<string, string>> = {
+	windows: { x64: 'windows-x64', x86: 'windows-x86', aarch64: 'windows-arm64' },
+	macos: { x64: 'mac-os', aarch64: 'mac-os-arm64' },
+	linux: { x64: 'linux', x86: 'linux-i386' }
+};
+
+/** A component of all.json, per platform */
+interface MojangRuntime {
+	version: { name: string };
+	manifest: { url: string };
+}
+
+/** An entry of a runtime manifest */
+interface MojangRuntimeFile {
+	type: 'file' | 'directory' | 'link';
+	executable?: boolean;
+	downloads?: { raw: { sha1: string; size: number; url: string } };
+}
+
+/**
+ * Mojang's curated runtimes, installed file by file under runtime/<component>.
+ * Without a component (forced `java.version`), the first component of the
+ * requested major version is used.
+ */
+export default class MojangProvider implements JavaProvider {
+	public readonly name = 'mojang';
+
+	public async resolve(request: JavaRuntimeRequest, cache: MetadataCache): Promise<JavaFilesPackage | null> {
+		const platform = PLATFORMS[request.platform]?.[request.arch];
+		if (!platform) return null;
+
+		const runtimes: Record<string, MojangRuntime[]> = (await cache.json<Record<string, Record<string, MojangRuntime[]>>>(RUNTIMES_URL, 'java'))[platform] ?? {};
+
+		let component = request.component;
+		if (!component) {
+			component = Object.keys(runtimes).find(name => {
+				const version = runtimes[name]?.[0]?.version?.name;
+				return version && getMajorVersion(version) === request.majorVersion;
+			});
+		}
+		const runtime = component ? runtimes[component]?.[0] : undefined;
+		if (!component || !runtime?.manifest?.url) return null;
+
+		const manifest = await cache.json<{ files: Record<string, MojangRuntimeFile> }>(runtime.manifest.url, 'java');
+		const entries = Object.entries(manifest.files);
+
+		// On macOS the runtime sits in a jre.bundle/Contents/Home sub folder
+		const executable = process.platform === 'win32' ? 'bin/javaw.exe' : 'bin/java';
+		const javaEntry = entries.find(([relPath]) => relPath.endsWith(executable));
+		if (!javaEntry) return null;
+
+		const toDelete = javaEntry[0].replace(executable, '');
+		const files: JavaFileItem[] = [];
+		for (const [relPath, info] of entries) {
+			if (info.type === 'directory') continue;
+			if (!info.downloads) continue;
+
+			files.push({
+				path: relPath.replace(toDelete, ''),
+				executable: info.executable,
+				sha1: info.downloads.raw.sha1,
+				size: info.downloads.raw.size,
+				url: info.downloads.raw.url,
+				type: 'Java'
+			});
+		}
+
+		return {
+			kind: 'files',
+			provider: this.name,
+			version: runtime.version.name,
+			folder: component,
+			files,
+			executable
+		};
+	}
+}
+
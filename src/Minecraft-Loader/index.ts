@@ -53,31 +53,37 @@ export default class Loader extends EventEmitter {
 		const loaderType = this.options.loader.type;
 		let result: LoaderResult | undefined;
 
-		switch (loaderType) {
-			case 'forge': {
-				result = await this.forge(LoaderData);
-				break;
-			}
-			case 'neoforge': {
-				result = await this.neoForge(LoaderData);
-				break;
-			}
-			case 'fabric': {
-				result = await this.fabric(LoaderData);
-				break;
-			}
-			case 'legacyfabric': {
-				result = await this.legacyFabric(LoaderData);
-				break;
-			}
-			case 'quilt': {
-				result = await this.quilt(LoaderData);
-				break;
-			}
-			default: {
-				this.emit('error', { error: `Loader ${loaderType} not found` });
-				return;
+		try {
+			switch (loaderType) {
+				case 'forge': {
+					result = await this.forge(LoaderData);
+					break;
+				}
+				case 'neoforge': {
+					result = await this.neoForge(LoaderData);
+					break;
+				}
+				case 'fabric': {
+					result = await this.fabric(LoaderData);
+					break;
+				}
+				case 'legacyfabric': {
+					result = await this.legacyFabric(LoaderData);
+					break;
+				}
+				case 'quilt': {
+					result = await this.quilt(LoaderData);
+					break;
+				}
+				default: {
+					this.emit('error', { error: `Loader ${loaderType} not found` });
+					return;
+				}
 			}
+		} catch (err: any) {
+			// Downloads reject when the install is cancelled through options.downloader.signal
+			this.emit('error', err instanceof Error ? err : { error: String(err) });
+			return;
 		}
 
 		// If there's an error property, emit it. Otherwise, emit the final JSON.
@@ -137,6 +143,7 @@ export default class Loader extends EventEmitter {
 		if (libraries.error) return libraries;
 
 		// 5. Patch Forge if necessary
+		this.options.downloader?.signal?.throwIfAborted();
 		const patch: any = await forge.patchForge(profile.install);
 		if (patch.error) return patch;
 
@@ -192,6 +199,7 @@ export default class Loader extends EventEmitter {
 		if (libraries.error) return libraries;
 
 		// Patch if needed
+		this.options.downloader?.signal?.throwIfAborted();
 		const patch: any = await neoForge.patchneoForge(profile.install, installer.oldAPI);
 		if (patch.error) return patch;
 
@@ -8,12 +8,15 @@ import fs from 'fs';
 import path from 'path';
 
 import { getPathLibraries } from '../../../utils/Index.js';
-import Downloader from '../../../utils/Downloader.js';
-import type { FabricLoaderData, FabricJSON } from '../../../types.js';
+import Downloader, { assertDownloaded } from '../../../utils/Downloader.js';
+import MetadataCache from '../../../utils/MetadataCache.js';
+import type { FabricLoaderData, FabricJSON, MetadataCacheOptions, DownloaderOptions } from '../../../types.js';
 
 interface FabricOptions {
 	path: string;
 	downloadFileMultiple?: number;
+	cache?: MetadataCacheOptions;
+	downloader?: DownloaderOptions;
 	loader: {
 		version: string;
 		build: string;
@@ -49,8 +52,8 @@ export default class FabricMC extends EventEmitter {
 	public async downloadJson(Loader: FabricLoaderData): Promise<FabricJSON | { error: string }> {
 		let buildInfo: { version: string; stable: boolean } | undefined;
 
-		let response = await fetch(Loader.metaData);
-		let metaData: { game: Array<{ version: string; stable: boolean }>; loader: Array<{ version: string; stable: boolean }> } = await response.json();
+		const cache = new MetadataCache(this.options.cache);
+		let metaData: { game: Array<{ version: string; stable: boolean }>; loader: Array<{ version: string; stable: boolean }> } = await cache.json(Loader.metaData, 'loader');
 
 		// Check if the Minecraft version is supported
 		const version = metaData.game.find(v => v.version === this.options.loader.version);
@@ -79,8 +82,7 @@ export default class FabricMC extends EventEmitter {
 
 		// Fetch the Fabric loader JSON
 		try {
-			const result = await fetch(url);
-			const fabricJson: FabricJSON = await result.json();
+			const fabricJson: FabricJSON = await cache.json(url, 'loader');
 			return fabricJson;
 		} catch (err: unknown) {
 			return { error: err instanceof Error ? err.message : 'An error occurred while fetching Fabric JSON' };
@@ -96,7 +98,7 @@ export default class FabricMC extends EventEmitter {
 	 */
 	public async downloadLibraries(fabricJson: FabricJSON): Promise<FabricLibrary[]> {
 		const { libraries } = fabricJson;
-		const downloader = new Downloader();
+		const downloader = new Downloader(this.options.downloader);
 		const downloadQueue: Array<{
 			url: string;
 			folder: string;
@@ -152,7 +154,8 @@ export default class FabricMC extends EventEmitter {
 				this.emit('progress', downloaded, total, 'libraries');
 			});
 
-			await downloader.downloadFileMultiple(downloadQueue, totalSize, this.options.downloadFileMultiple);
+			const summary = await downloader.downloadFileMultiple(downloadQueue, totalSize, this.options.downloadFileMultiple);
+			assertDownloaded(summary, 'library', 'libraries');
 		}
 
 		return libraries;
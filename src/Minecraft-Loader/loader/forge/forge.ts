@@ -16,7 +16,8 @@ import {
 	skipLibrary
 } from '../../../utils/Index.js';
 
-import Downloader from '../../../utils/Downloader.js';
+import Downloader, { assertDownloaded } from '../../../utils/Downloader.js';
+import MetadataCache from '../../../utils/MetadataCache.js';
 import ForgePatcher, { Profile } from '../../patcher.js';
 import type {
 	ForgeInstallProfile,
@@ -84,6 +85,15 @@ type DownloadInstallerResult =
 		error: string;
 	};
 
+/** Files published for a Forge build, by classifier then extension (value: MD5) */
+interface ForgeBuildMeta {
+	classifiers: {
+		installer?: Record<string, string>;
+		client?: Record<string, string>;
+		universal?: Record<string, string>;
+	};
+}
+
 /**
  * Describes the structure of an install_profile.json (Forge Installer) after extraction.
  */
@@ -120,14 +130,15 @@ export default class ForgeMC extends EventEmitter {
 	 * @param Loader An object containing URLs for metadata and Forge files.
 	 */
 	public async downloadInstaller(Loader: any): Promise<DownloadInstallerResult> {
-		// Fetch metadata for the given Forge version
-		let metaDataList: any = await fetch(Loader.metaData);
+		const cache = new MetadataCache(this.options.cache);
 
-		if (!metaDataList.ok) {
+		// Fetch metadata for the given Forge version, falling back to the bundled copy
+		let metaDataList: any;
+		try {
+			metaDataList = await cache.json<Record<string, string[]>>(Loader.metaData, 'loader');
+		} catch {
 			metaDataList = fs.readFileSync(path.resolve(__dirname, '../../../../assets/forge', 'forge-metadata.json'), 'utf-8');
 			metaDataList = JSON.parse(metaDataList);
-		} else {
-			metaDataList = await metaDataList.json();
 		}
 
 		metaDataList = metaDataList[this.options.loader.version];
@@ -141,12 +152,12 @@ export default class ForgeMC extends EventEmitter {
 
 		// Handle "latest" or "recommended" builds by checking promotions
 		if (this.options.loader.build === 'latest') {
-			let promotions = await fetch(Loader.promotions).then(res => res.json());
+			let promotions = await cache.json<{ promos: Record<string, string> }>(Loader.promotions, 'loader');
 			const promoKey = `${this.options.loader.version}-latest`;
 			const promoBuild = promotions.promos[promoKey];
 			build = metaDataList.find(b => b.includes(promoBuild));
 		} else if (this.options.loader.build === 'recommended') {
-			let promotions = await fetch(Loader.promotions).then(res => res.json());
+			let promotions = await cache.json<{ promos: Record<string, string> }>(Loader.promotions, 'loader');
 			let promoKey = `${this.options.loader.version}-recommended`;
 			let promoBuild = promotions.promos[promoKey] || promotions.promos[`${this.options.loader.version}-latest`];
 			build = metaDataList.find(b => b.includes(promoBuild));
@@ -163,7 +174,7 @@ export default class ForgeMC extends EventEmitter {
 		}
 
 		// Fetch info about the chosen build from the meta URL
-		const meta = await fetch(Loader.meta.replace(/\${build}/g, chosenBuild)).then(res => res.json());
+		const meta = await cache.json<ForgeBuildMeta>(Loader.meta.replace(/\${build}/g, chosenBuild), 'loader');
 
 		// Determine which classifier to use (installer, client, or universal)
 		const hasInstaller = meta.classifiers.installer;
@@ -199,7 +210,7 @@ export default class ForgeMC extends EventEmitter {
 			if (!fs.existsSync(forgeFolder)) {
 				fs.mkdirSync(forgeFolder, { recursive: true });
 			}
-			const dl = new Downloader();
+			const dl = new Downloader(this.options.downloader);
 			dl.on('progress', (downloaded: number, size: number) => {
 				this.emit('progress', downloaded, size, fileName);
 			});
@@ -337,7 +348,7 @@ export default class ForgeMC extends EventEmitter {
 	 */
 	public async downloadLibraries(profile: ForgeProfile, skipForgeFilter: boolean): Promise<MinecraftLibrary[] | { error: string }> {
 		let libraries = profile.version?.libraries || [];
-		const dl = new Downloader();
+		const dl = new Downloader(this.options.downloader);
 		let checkCount = 0;
 		const downloadList: Array<{
 			url: string;
@@ -429,7 +440,8 @@ export default class ForgeMC extends EventEmitter {
 			dl.on('progress', (DL: number, totDL: number) => {
 				this.emit('progress', DL, totDL, 'libraries');
 			});
-			await dl.downloadFileMultiple(downloadList, totalSize, this.options.downloadFileMultiple);
+			const summary = await dl.downloadFileMultiple(downloadList, totalSize, this.options.downloadFileMultiple);
+			assertDownloaded(summary, 'library', 'libraries');
 		}
 
 		return libraries;
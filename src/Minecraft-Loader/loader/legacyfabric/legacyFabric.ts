@@ -8,8 +8,9 @@ import path from 'path';
 import { EventEmitter } from 'events';
 
 import { getPathLibraries } from '../../../utils/Index.js';
-import Downloader from '../../../utils/Downloader.js';
-import type { FabricLoaderData, FabricJSON } from '../../../types.js';
+import Downloader, { assertDownloaded } from '../../../utils/Downloader.js';
+import MetadataCache from '../../../utils/MetadataCache.js';
+import type { FabricLoaderData, FabricJSON, MetadataCacheOptions, DownloaderOptions } from '../../../types.js';
 
 interface FabricOptions {
 	path: string;
@@ -18,6 +19,8 @@ interface FabricOptions {
 		build: string;
 	};
 	downloadFileMultiple?: number;
+	cache?: MetadataCacheOptions;
+	downloader?: DownloaderOptions;
 }
 
 interface FabricLibrary {
@@ -49,8 +52,8 @@ export default class FabricMC extends EventEmitter {
 	public async downloadJson(Loader: FabricLoaderData): Promise<FabricJSON | { error: string }> {
 		let selectedBuild: { version: string } | undefined;
 
-		const metaResponse = await fetch(Loader.metaData);
-		const metaData: { game: Array<{ version: string }>; loader: Array<{ version: string }> } = await metaResponse.json();
+		const cache = new MetadataCache(this.options.cache);
+		const metaData: { game: Array<{ version: string }>; loader: Array<{ version: string }> } = await cache.json(Loader.metaData, 'loader');
 
 		const versionExists = metaData.game.find((ver) => ver.version === this.options.loader.version);
 		if (!versionExists) {
@@ -79,8 +82,7 @@ export default class FabricMC extends EventEmitter {
 
 		// Fetch and parse the JSON
 		try {
-			const response = await fetch(url);
-			const fabricJson: FabricJSON = await response.json();
+			const fabricJson: FabricJSON = await cache.json(url, 'loader');
 			return fabricJson;
 		} catch (err: unknown) {
 			return { error: err instanceof Error ? err.message : 'Failed to fetch or parse Fabric loader JSON' };
@@ -96,7 +98,7 @@ export default class FabricMC extends EventEmitter {
 	 */
 	public async downloadLibraries(json: FabricJSON): Promise<FabricLibrary[]> {
 		const { libraries } = json;
-		const downloader = new Downloader();
+		const downloader = new Downloader(this.options.downloader);
 		let pendingDownloads: Array<{
 			url: string;
 			folder: string;
@@ -151,7 +153,8 @@ export default class FabricMC extends EventEmitter {
 				this.emit('progress', downloaded, total, 'libraries');
 			});
 
-			await downloader.downloadFileMultiple(pendingDownloads, totalSize, this.options.downloadFileMultiple);
+			const summary = await downloader.downloadFileMultiple(pendingDownloads, totalSize, this.options.downloadFileMultiple);
+			assertDownloaded(summary, 'library', 'libraries');
 		}
 
 		return libraries;
@@ -8,7 +8,8 @@ import path from 'path';
 import { EventEmitter } from 'events';
 
 import { getPathLibraries, mirrors, getFileFromArchive } from '../../../utils/Index.js';
-import Downloader from '../../../utils/Downloader.js';
+import Downloader, { assertDownloaded } from '../../../utils/Downloader.js';
+import MetadataCache from '../../../utils/MetadataCache.js';
 import NeoForgePatcher from '../../patcher.js';
 import type {
 	PatcherProfile,
@@ -16,6 +17,8 @@ import type {
 	MinecraftLibrary,
 	NeoForgeLoaderData,
 	PatcherProcessor,
+	MetadataCacheOptions,
+	DownloaderOptions,
 } from '../../../types.js';
 
 interface NeoForgeOptions {
@@ -31,6 +34,8 @@ interface NeoForgeOptions {
 		type: string;
 	};
 	downloadFileMultiple?: number;
+	cache?: MetadataCacheOptions;
+	downloader?: DownloaderOptions;
 }
 
 type DownloadInstallerResult =
@@ -132,8 +137,9 @@ export default class NeoForgeMC extends EventEmitter {
 		const minecraftVersion = this.options.loader.version;
 
 		// Fetch versions from both APIs
-		const legacyMetaData = await fetch(Loader.legacyMetaData).then(res => res.json());
-		const metaData = await fetch(Loader.metaData).then(res => res.json());
+		const cache = new MetadataCache(this.options.cache);
+		const legacyMetaData = await cache.json<{ versions: string[] }>(Loader.legacyMetaData, 'loader');
+		const metaData = await cache.json<{ versions: string[] }>(Loader.metaData, 'loader');
 
 		// Try legacy API first (old Forge-era versions like "1.20.1-47.1.0")
 		let versions: string[] = legacyMetaData.versions.filter((v: string) =>
@@ -182,7 +188,7 @@ export default class NeoForgeMC extends EventEmitter {
 			if (!fs.existsSync(neoForgeFolder)) {
 				fs.mkdirSync(neoForgeFolder, { recursive: true });
 			}
-			const downloader = new Downloader();
+			const downloader = new Downloader(this.options.downloader);
 			downloader.on('progress', (downloaded: number, size: number) => {
 				this.emit('progress', downloaded, size, `neoForge-${build}-installer.jar`);
 			});
@@ -308,7 +314,7 @@ export default class NeoForgeMC extends EventEmitter {
 	 */
 	public async downloadLibraries(profile: NeoForgeProfile, skipNeoForgeFilter: boolean): Promise<MinecraftLibrary[] | { error: string }> {
 		let libraries = profile.version?.libraries || [];
-		const dl = new Downloader();
+		const dl = new Downloader(this.options.downloader);
 		let checkCount = 0;
 		const pendingFiles: Array<{
 			url: string;
@@ -393,7 +399,8 @@ export default class NeoForgeMC extends EventEmitter {
 				this.emit('progress', downloaded, totDL, 'libraries');
 			});
 
-			await dl.downloadFileMultiple(pendingFiles, totalSize, this.options.downloadFileMultiple);
+			const summary = await dl.downloadFileMultiple(pendingFiles, totalSize, this.options.downloadFileMultiple);
+			assertDownloaded(summary, 'library', 'libraries');
 		}
 
 		return libraries;
@@ -8,8 +8,9 @@ import path from 'path';
 import { EventEmitter } from 'events';
 
 import { getPathLibraries } from '../../../utils/Index.js';
-import Downloader from '../../../utils/Downloader.js';
-import type { FabricLoaderData, FabricJSON } from '../../../types.js';
+import Downloader, { assertDownloaded } from '../../../utils/Downloader.js';
+import MetadataCache from '../../../utils/MetadataCache.js';
+import type { FabricLoaderData, FabricJSON, MetadataCacheOptions, DownloaderOptions } from '../../../types.js';
 
 interface QuiltOptions {
 	path: string;
@@ -18,6 +19,8 @@ interface QuiltOptions {
 		build: string;
 	};
 	downloadFileMultiple?: number;
+	cache?: MetadataCacheOptions;
+	downloader?: DownloaderOptions;
 }
 
 interface QuiltLibrary {
@@ -56,8 +59,8 @@ export default class Quilt extends EventEmitter {
 	public async downloadJson(Loader: FabricLoaderData): Promise<QuiltJSON | { error: string }> {
 		let selectedBuild: { version: string } | undefined;
 
-		const metaResponse = await fetch(Loader.metaData);
-		const metaData: { game: Array<{ version: string }>; loader: Array<{ version: string }> } = await metaResponse.json();
+		const cache = new MetadataCache(this.options.cache);
+		const metaData: { game: Array<{ version: string }>; loader: Array<{ version: string }> } = await cache.json(Loader.metaData, 'loader');
 
 		const mcVersionExists = metaData.game.find((ver) => ver.version === this.options.loader.version);
 		if (!mcVersionExists) {
@@ -90,8 +93,7 @@ export default class Quilt extends EventEmitter {
 
 		// Fetch the JSON profile
 		try {
-			const response = await fetch(url);
-			const quiltJson: QuiltJSON = await response.json();
+			const quiltJson: QuiltJSON = await cache.json(url, 'loader');
 			return quiltJson;
 		} catch (err: unknown) {
 			return { error: err instanceof Error ? err.message : 'Failed to fetch or parse Quilt loader JSON' };
@@ -108,7 +110,7 @@ export default class Quilt extends EventEmitter {
 	 */
 	public async downloadLibraries(quiltJson: QuiltJSON): Promise<QuiltLibrary[]> {
 		const { libraries } = quiltJson;
-		const downloader = new Downloader();
+		const downloader = new Downloader(this.options.downloader);
 
 		let filesToDownload: Array<{
 			url: string;
@@ -165,7 +167,8 @@ export default class Quilt extends EventEmitter {
 				this.emit('progress', downloaded, total, 'libraries');
 			});
 
-			await downloader.downloadFileMultiple(filesToDownload, totalSize, this.options.downloadFileMultiple);
+			const summary = await downloader.downloadFileMultiple(filesToDownload, totalSize, this.options.downloadFileMultiple);
+			assertDownloaded(summary, 'library', 'libraries');
 		}
 
 		return libraries;
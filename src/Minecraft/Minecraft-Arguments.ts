@@ -6,7 +6,8 @@
 import fs from 'fs';
 import os from 'os';
 import semver from 'semver';
-import { getPathLibraries, isold } from '../utils/Index.js';
+import { getPathLibraries, getGameDirectory, isold } from '../utils/Index.js';
+import { evaluateRules, resolveArguments } from '../utils/Rules.js';
 import type {
 	LaunchOptions,
 	MinecraftVersionJSON,
@@ -14,7 +15,7 @@ import type {
 	LaunchArguments,
 	MinecraftLibrary,
 	Authenticator,
-	LibraryRule
+	RuleFeatures
 } from '../types.js';
 
 /** Maps Node.js platforms to Mojang's library folders */
@@ -24,6 +25,22 @@ const MOJANG_LIBRARY_MAP: Record<string, string> = {
 	linux: 'linux'
 };
 
+/**
+ * JVM arguments added to those of the version JSON unless LaunchOptions.JVM_PRESET
+ * replaces them: G1 tuning, and native directories older JSONs do not set.
+ */
+export const DEFAULT_JVM_PRESET = [
+	'-XX:+UnlockExperimentalVMOptions',
+	'-XX:G1NewSizePercent=20',
+	'-XX:G1ReservePercent=20',
+	'-XX:MaxGCPauseMillis=50',
+	'-XX:G1HeapRegionSize=32M',
+	'-Dfml.ignoreInvalidMinecraftCertificates=true',
+	'-Djna.tmpdir=${natives_directory}',
+	'-Dorg.lwjgl.system.SharedLibraryExtractPath=${natives_directory}',
+	'-Dio.netty.native.workdir=${natives_directory}'
+];
+
 /**
  * Builds and organizes JVM and game arguments required to launch Minecraft.
  */
@@ -41,8 +58,8 @@ export default class MinecraftArguments {
 	 */
 	public async GetArguments(versionJson: MinecraftVersionJSON, loaderJson?: LoaderJSON): Promise<LaunchArguments> {
 		const gameArguments = await this.GetGameArguments(versionJson, loaderJson);
-		const jvmArguments = await this.GetJVMArguments(versionJson);
 		const classpathData = await this.GetClassPath(versionJson, loaderJson);
+		const jvmArguments = await this.GetJVMArguments(versionJson, classpathData.classpath[1]);
 
 		return {
 			game: gameArguments,
@@ -59,10 +76,11 @@ export default class MinecraftArguments {
 	 * @param loaderJson  The loader JSON (e.g., Forge) if applicable.
 	 */
 	public async GetGameArguments(versionJson: MinecraftVersionJSON, loaderJson?: LoaderJSON): Promise<Array<string>> {
-		// For older MC versions, arguments may be in `minecraftArguments` instead of `arguments.game`
+		// For older MC versions, arguments may be in `minecraftArguments` instead of `arguments.game`;
+		// conditional entries of `arguments.game` are kept when their rules allow them
 		let gameArgs = versionJson.minecraftArguments
 			? versionJson.minecraftArguments.split(' ')
-			: versionJson.arguments?.game ?? [];
+			: resolveArguments(versionJson.arguments?.game, this.getFeatures());
 
 		// Merge loader's Minecraft arguments if provided
 		if (loaderJson) {
@@ -95,9 +113,7 @@ export default class MinecraftArguments {
 			'${user_type}': userType,
 			'${version_name}': loaderJson ? loaderJson.id || versionJson.id : versionJson.id,
 			'${assets_index_name}': assetsIndexName,
-			'${game_directory}': this.options.instance
-				? `${this.options.path}/instances/${this.options.instance}`
-				: this.options.path,
+			'${game_directory}': getGameDirectory(this.options),
 			'${assets_root}': isold(versionJson)
 				? `${this.options.path}/resources`
 				: `${this.options.path}/assets`,
@@ -107,81 +123,65 @@ export default class MinecraftArguments {
 			'${version_type}': versionJson.type,
 			'${clientid}': this.authenticator.clientId
 				|| this.authenticator.client_token
-				|| this.authenticator.access_token
+				|| this.authenticator.access_token,
+			'${resolution_width}': String(this.options.screen?.width ?? ''),
+			'${resolution_height}': String(this.options.screen?.height ?? ''),
+			'${quickPlayPath}': this.options.quickPlay?.path ?? '',
+			'${quickPlaySingleplayer}': this.options.quickPlay?.identifier ?? '',
+			'${quickPlayMultiplayer}': this.options.quickPlay?.identifier ?? '',
+			'${quickPlayRealms}': this.options.quickPlay?.identifier ?? ''
 		};
 
 		// Replace placeholders in the game arguments
 		for (let i = 0; i < gameArgs.length; i++) {
-			if (typeof gameArgs[i] === 'object') {
-				gameArgs.splice(i, 1);
-				i--;
-				continue;
-			}
-			const arg = gameArgs[i] as string;
-			if (placeholderMap[arg]) {
-				gameArgs[i] = placeholderMap[arg];
+			if (placeholderMap[gameArgs[i]]) {
+				gameArgs[i] = placeholderMap[gameArgs[i]];
 			}
 		}
 
-		// If screen options are provided, add them
-		if (this.options.screen) {
+		// If screen options are provided, add them (unless the version JSON already did)
+		if (this.getFeatures().has_custom_resolution && !gameArgs.includes('--width')) {
 			const { width, height } = this.options.screen;
-			if (width && height) {
-				gameArgs.push('--width', String(width), '--height', String(height));
-			}
+			gameArgs.push('--width', String(width), '--height', String(height));
+		}
+
+		// Versions before Quick Play can still join a server on startup
+		const quickPlay = this.options.quickPlay;
+		if (quickPlay?.type === 'multiplayer' && !gameArgs.includes('--quickPlayMultiplayer')) {
+			const { host, port } = this.parseServerAddress(quickPlay.identifier);
+			gameArgs.push('--server', host, '--port', port);
 		}
 
 		// Add any extra game arguments from user config
 		gameArgs.push(...this.options.GAME_ARGS);
 
-		// Filter out any remaining unexpected objects
-		return gameArgs.filter(item => typeof item === 'string');
+		return gameArgs;
 	}
 
 	/**
-	 * Evaluates rules for arguments (OS, version, features).
-	 * @param rules Array of rules to evaluate.
-	 * @returns true if all rules pass, false otherwise.
+	 * Launcher features `arguments` rules are evaluated against.
 	 */
-	private EvaluateRules(rules?: Array<any>): boolean {
-		if (!rules || rules.length === 0) return true;
-
-		for (const rule of rules) {
-			const action = rule.action || 'allow';
-			let matches = true;
-
-			// Check OS rules
-			if (rule.os) {
-				const osName = MOJANG_LIBRARY_MAP[process.platform];
-
-				if (rule.os.name && rule.os.name !== osName) {
-					matches = false;
-				}
-
-				// Check OS version range (for Windows)
-				if (matches && rule.os.versionRange) {
-					const osRelease = os.release();
-
-					// Simple version comparison for Windows
-					if (rule.os.versionRange.min) {
-						// For simplicity, we'll allow the rule if on Windows
-						// A more complete implementation would parse and compare versions
-						matches = process.platform === 'win32';
-					}
-					if (rule.os.versionRange.max) {
-						// Similar simple check
-						matches = process.platform === 'win32';
-					}
-				}
-			}
-
-			// If action is 'allow' and matches, or action is 'disallow' and doesn't match
-			if ((action === 'allow' && !matches) || (action === 'disallow' && matches)) {
-				return false;
-			}
-		}
+	private getFeatures(): RuleFeatures {
+		const { width, height } = this.options.screen ?? {};
+		const quickPlay = this.options.quickPlay;
+		return {
+			is_demo_user: false,
+			has_custom_resolution: Boolean(width && height),
+			has_quick_plays_support: Boolean(quickPlay?.path),
+			is_quick_play_singleplayer: quickPlay?.type === 'singleplayer',
+			is_quick_play_multiplayer: quickPlay?.type === 'multiplayer',
+			is_quick_play_realms: quickPlay?.type === 'realms'
+		};
+	}
 
-		return true;
+	/**
+	 * Splits a server address into host and port (25565 by default),
+	 * accepting "host", "host:port" and "[ipv6]:port".
+	 */
+	private parseServerAddress(address: string): { host: string; port: string } {
+		const match = address.trim().match(/^(?:\[([^\]]+)\]|([^:]+))(?::(\d+))?$/);
+		if (!match) return { host: address.trim(), port: '25565' };
+		return { host: match[1] ?? match[2], port: match[3] ?? '25565' };
 	}
 
 	/**
@@ -215,7 +215,7 @@ export default class MinecraftArguments {
 
 		for (const argEntry of defaultUserJVM) {
 			// Check if rules exist and evaluate them
-			if (argEntry.rules && !this.EvaluateRules(argEntry.rules)) continue;
+			if (!evaluateRules(argEntry.rules, this.getFeatures())) continue;
 
 			// Extract values
 			let values: Array<string> = [];
@@ -239,40 +239,50 @@ export default class MinecraftArguments {
 	}
 
 	/**
-	 * Builds the JVM arguments needed by Minecraft. This includes memory settings,
-	 * OS-specific options, and any additional arguments supplied by the user.
+	 * Builds the JVM arguments needed by Minecraft from `arguments.jvm` of the
+	 * version JSON (a legacy equivalent for versions using `minecraftArguments`),
+	 * followed by the JVM preset, memory settings and any additional arguments
+	 * supplied by the user.
 	 * @param versionJson The Minecraft version JSON.
+	 * @param classpath   The classpath, for `${classpath}` outside of `-cp`.
 	 */
-	public async GetJVMArguments(versionJson: MinecraftVersionJSON): Promise<Array<string>> {
-		// Some OS-specific defaults
-		const osSpecificOpts: Record<string, string> = {
-			win32: '-XX:HeapDumpPath=MojangTricksIntelDriversForPerformance_javaw.exe_minecraft.exe.heapdump',
-			darwin: '-XstartOnFirstThread',
-			linux: '-Xss1M'
+	public async GetJVMArguments(versionJson: MinecraftVersionJSON, classpath?: string): Promise<Array<string>> {
+		const nativesDirectory = `${this.options.path}/versions/${versionJson.id}/natives`;
+		const placeholders: Record<string, string> = {
+			natives_directory: nativesDirectory,
+			launcher_name: this.options.launcher?.name ?? '',
+			launcher_version: this.options.launcher?.version ?? '',
+			classpath: classpath ?? '',
+			classpath_separator: process.platform === 'win32' ? ';' : ':',
+			library_directory: `${this.options.path}/libraries`,
+			version_name: versionJson.id,
+			game_directory: getGameDirectory(this.options)
 		};
+		const substitute = (arg: string) => arg.replace(/\$\{(\w+)\}/g, (match, key: string) => placeholders[key] ?? match);
+
+		// Old versions have no `arguments.jvm`: the vanilla launcher only passed the natives path
+		const versionArgs = versionJson.arguments?.jvm
+			? resolveArguments(versionJson.arguments.jvm, this.getFeatures())
+			: versionJson.nativesList === false ? [] : ['-Djava.library.path=${natives_directory}'];
 
-		// Core JVM arguments
 		const jvmArgs: Array<string> = [
 			`-Xms${this.options.memory.min}`,
-			`-Xmx${this.options.memory.max}`,
-			'-XX:+UnlockExperimentalVMOptions',
-			'-XX:G1NewSizePercent=20',
-			'-XX:G1ReservePercent=20',
-			'-XX:MaxGCPauseMillis=50',
-			'-XX:G1HeapRegionSize=32M',
-			'-Dfml.ignoreInvalidMinecraftCertificates=true',
-			`-Djna.tmpdir=${this.options.path}/versions/${versionJson.id}/natives`,
-			`-Dorg.lwjgl.system.SharedLibraryExtractPath=${this.options.path}/versions/${versionJson.id}/natives`,
-			`-Dio.netty.native.workdir=${this.options.path}/versions/${versionJson.id}/natives`
+			`-Xmx${this.options.memory.max}`
 		];
-
-		// For newer MC versions that use "arguments.game" instead of "minecraftArguments",
-		// we add OS-specific arguments (e.g., Mac uses -XstartOnFirstThread).
-		if (!versionJson.minecraftArguments) {
-			const opt = osSpecificOpts[process.platform];
-			if (opt) {
-				jvmArgs.push(opt);
+		for (let i = 0; i < versionArgs.length; i++) {
+			// The classpath is passed separately (see GetClassPath)
+			if ((versionArgs[i] === '-cp' || versionArgs[i] === '-classpath') && versionArgs[i + 1] === '${classpath}') {
+				i++;
+				continue;
 			}
+			jvmArgs.push(substitute(versionArgs[i]));
+		}
+
+		// The preset only adds what the version JSON does not already set
+		const versionKeys = new Set(jvmArgs.map(arg => this.getArgKey(arg)));
+		for (const arg of this.options.JVM_PRESET ?? DEFAULT_JVM_PRESET) {
+			const value = substitute(arg);
+			if (!versionKeys.has(this.getArgKey(value))) jvmArgs.push(value);
 		}
 
 		// bypass offline mode multiplayer
@@ -283,11 +293,6 @@ export default class MinecraftArguments {
 			jvmArgs.push('-Dminecraft.api.services.host=https://nope.invalid/');
 		}
 
-		// If natives are specified, add the native library path
-		if (versionJson.nativesList) {
-			jvmArgs.push(`-Djava.library.path=${this.options.path}/versions/${versionJson.id}/natives`);
-		}
-
 		// Special handling for macOS (setting dock icon)
 		if (os.platform() === 'darwin') {
 			const assetsPath = `${this.options.path}/assets/indexes/${versionJson.assets}.json`;
@@ -310,7 +315,7 @@ export default class MinecraftArguments {
 
 		// Process and add default-user-jvm arguments from version JSON
 		// These are Mojang's recommended JVM arguments for this version
-		// Pass existing jvmArgs to avoid duplicates with hardcoded arguments
+		// Pass existing jvmArgs to avoid duplicates with the arguments above
 		const defaultUserJVMArgs = this.ProcessDefaultUserJVMArgs(versionJson, jvmArgs);
 		jvmArgs.push(...defaultUserJVMArgs);
 
@@ -338,6 +343,9 @@ export default class MinecraftArguments {
 			combinedLibraries = loaderJson.libraries.concat(combinedLibraries);
 		}
 
+		// Some libraries only apply to specific OS platforms, versions or architectures
+		combinedLibraries = combinedLibraries.filter(lib => evaluateRules(lib.rules));
+
 		const map = new Map();
 
 		for (const dep of combinedLibraries) {
@@ -374,9 +382,6 @@ export default class MinecraftArguments {
 			if (lib.natives) {
 				const nativeName = lib.natives[MOJANG_LIBRARY_MAP[process.platform]] || lib.natives[process.platform];
 				if (!nativeName) continue;
-			} else if (lib.rules && lib.rules[0].os) {
-				// Some libraries only apply to specific OS platforms
-				if (lib.rules[0].os.name !== MOJANG_LIBRARY_MAP[process.platform]) continue;
 			}
 
 			// Build the path for this library
@@ -395,7 +400,8 @@ export default class MinecraftArguments {
 		} else if (this.options.mcp) {
 			librariesList.push(this.options.mcp);
 		} else {
-			librariesList.push(`${this.options.path}/versions/${versionJson.id}/${versionJson.id}.jar`);
+			const jar = versionJson.jar ?? versionJson.id;
+			librariesList.push(`${this.options.path}/versions/${jar}/${jar}.jar`);
 		}
 
 		// Filter out duplicates in the final library paths
@@ -3,8 +3,15 @@
  * Luuxis License v1.0 (voir fichier LICENSE pour les détails en FR/EN)
  */
 import fs from 'fs';
+import MetadataCache from '../utils/MetadataCache.js';
+import { getGameDirectory } from '../utils/Index.js';
 import type { AssetItem, LaunchOptions, MinecraftVersionJSON } from '../types.js';
 
+/** Content of an asset index JSON */
+interface AssetIndexJSON {
+	objects?: Record<string, { hash: string; size: number }>;
+}
+
 /**
  * Class responsible for handling Minecraft asset index fetching
  * and optionally copying legacy assets to the correct directory.
@@ -32,13 +39,20 @@ export default class MinecraftAssets {
 			return [];
 		}
 
-		// Fetch the asset index JSON from the remote URL
-		let data;
-		try {
-			const response = await fetch(this.assetIndex.url);
-			data = await response.json();
-		} catch (err: any) {
-			throw new Error(`Failed to fetch asset index: ${err.message}`);
+		// Fetch the asset index JSON from the remote URL (or disk when offline)
+		let data: AssetIndexJSON;
+		if (this.options.offline) {
+			const indexPath = `${this.options.path}/assets/indexes/${this.assetIndex.id}.json`;
+			if (!fs.existsSync(indexPath)) {
+				throw new Error(`Asset index ${this.assetIndex.id} is not installed, cannot launch offline.`);
+			}
+			data = JSON.parse(fs.readFileSync(indexPath, 'utf-8'));
+		} else {
+			try {
+				data = await new MetadataCache(this.options.cache).json<AssetIndexJSON>(this.assetIndex.url, 'assetIndex');
+			} catch (err: any) {
+				throw new Error(`Failed to fetch asset index: ${err.message}`);
+			}
 		}
 
 		// First item is the index file itself, which we'll store locally
@@ -52,7 +66,7 @@ export default class MinecraftAssets {
 
 		// Convert the "objects" property into a list of individual assets
 		const objects = Object.values(data.objects || {});
-		for (const obj of objects as Array<{ hash: string; size: number }>) {
+		for (const obj of objects) {
 			assetsArray.push({
 				type: 'Assets',
 				sha1: obj.hash,
@@ -74,10 +88,7 @@ export default class MinecraftAssets {
 	 */
 	public copyAssets(versionJson: MinecraftVersionJSON): void {
 		// Determine the legacy directory where resources should go
-		let legacyDirectory = `${this.options.path}/resources`;
-		if (this.options.instance) {
-			legacyDirectory = `${this.options.path}/instances/${this.options.instance}/resources`;
-		}
+		const legacyDirectory = `${getGameDirectory(this.options)}/resources`;
 
 		// The path to the local asset index JSON
 		const pathAssets = `${this.options.path}/assets/indexes/${versionJson.assets}.json`;
@@ -3,17 +3,24 @@
  * Luuxis License v1.0 (voir fichier LICENSE pour les détails en FR/EN)
  */
 
+import crypto from 'crypto';
 import fs from 'fs';
 import path from 'path';
 import { EventEmitter } from 'events';
-import { getFileHash } from '../utils/Index.js';
-import type { BundleItem, LaunchOptions } from '../types.js';
+import { getFileHash, getGameDirectory, pathMatcher } from '../utils/Index.js';
+import SharedStore from '../utils/SharedStore.js';
+import HashIndex from '../utils/HashIndex.js';
+import MinecraftQuarantine from './Minecraft-Quarantine.js';
+import type { BundleItem, CleanupReport, InstallationIssue, InstallationReport, LaunchOptions } from '../types.js';
 
-export type { BundleItem };
+export type { BundleItem, InstallationIssue, InstallationReport };
 
 /** Number of files to hash in parallel during bundle checking */
 const CHECK_CONCURRENCY = 64;
 
+/** Player data the verify cleanup never touches, unless `cleanup.protected` overrides it */
+export const DEFAULT_PROTECTED = ['saves/', 'screenshots/', 'options.txt', 'logs/'];
+
 /**
  * This class manages checking, downloading, and cleaning up Minecraft files.
  */
@@ -31,30 +38,33 @@ export default class MinecraftBundle extends EventEmitter {
 	 *
 	 * Phase 1 (sync, fast): resolve paths, write CFILE files, quick existence
 	 * and size checks to immediately classify files as "missing" or "need hash".
+	 * Files unchanged (size, mtime, inode) since they were last hashed reuse the
+	 * SHA-1 recorded in `<path>/cache/hash-index.json`, unless `deep` is set.
 	 *
 	 * Phase 2 (parallel): hash files that passed the size check in batches
 	 * of CHECK_CONCURRENCY to saturate disk I/O without exhausting memory.
 	 *
+	 * Phase 3: when a shared store is configured, missing files it holds are
+	 * linked into place instead of downloaded, and verified local files the
+	 * store lacks are added to it.
+	 *
 	 * @param bundle Array of file items describing what needs to be on disk.
 	 * @returns Array of BundleItem objects that require downloading.
 	 */
 	public async checkBundle(bundle: BundleItem[]): Promise<BundleItem[]> {
 		const toDownload: BundleItem[] = [];
 		const toHash: BundleItem[] = [];          // files that exist & need hash verification
+		const store = new SharedStore(this.options.store);
+		const index = new HashIndex(`${this.options.path.replace(/\\/g, '/').replace(/\/+$/, '')}/cache/hash-index.json`);
+		const stats = new Map<BundleItem, fs.Stats>();
 
 		// Always normalise paths to forward slashes so that comparisons work
 		// on Windows where `this.options.path` may contain backslashes while
 		// `file.path` is normalised below via path.resolve().replace(/\\/g, '/').
 		const basePath = this.options.path.replace(/\\/g, '/').replace(/\/+$/, '');
-		let replaceName = `${basePath}/`;
-		if (this.options.instance) {
-			replaceName = `${basePath}/instances/${this.options.instance}/`;
-		}
-		// Normalise ignored entries too: users may provide them with either
-		// '/' or '\' separators, with or without a leading slash.
-		const ignoredSet = new Set(
-			this.options.ignored.map(p => p.replace(/\\/g, '/').replace(/^\/+/, ''))
-		);
+		const replaceName = `${getGameDirectory({ ...this.options, path: basePath })}/`;
+		// Ignored entries are glob patterns relative to the game/instance directory
+		const isIgnored = pathMatcher(this.options.ignored);
 
 		// ── Phase 1: synchronous fast-pass ─────────────────────────────
 		for (const file of bundle) {
@@ -81,14 +91,21 @@ export default class MinecraftBundle extends EventEmitter {
 
 			// Skip ignored files
 			const relativePath = file.path.replace(replaceName, '');
-			if (ignoredSet.has(relativePath)) continue;
+			if (isIgnored(relativePath)) continue;
 
 			if (file.sha1) {
 				// Quick size check: if size is known and doesn't match → skip hash, redownload
 				if (file.size && stat.size !== file.size) {
 					toDownload.push(file);
-				} else {
+					continue;
+				}
+
+				const known = this.options.deep ? null : index.lookup(file.path, stat);
+				if (known === null) {
+					stats.set(file, stat);
 					toHash.push(file);
+				} else if (known !== file.sha1) {
+					toDownload.push(file);
 				}
 			}
 		}
@@ -104,8 +121,11 @@ export default class MinecraftBundle extends EventEmitter {
 					const file = toHash[idx++];
 					try {
 						const localHash = await getFileHash(file.path);
+						index.set(file.path, stats.get(file)!, localHash);
 						if (localHash !== file.sha1) {
 							toDownload.push(file);
+						} else {
+							store.add(file.sha1!, file.path);
 						}
 					} catch {
 						toDownload.push(file);
@@ -122,8 +142,17 @@ export default class MinecraftBundle extends EventEmitter {
 			}
 			await Promise.all(workers);
 		}
+		index.save();
+
+		// ── Phase 3: materialise from the shared store ────────────────
+		if (!store.enabled) return toDownload;
 
-		return toDownload;
+		const remaining: BundleItem[] = [];
+		for (const file of toDownload) {
+			if (!(file.sha1 && await store.materialise(file.sha1, file.path, file.size))) remaining.push(file);
+		}
+		store.save();
+		return remaining;
 	}
 
 	/**
@@ -150,85 +179,244 @@ export default class MinecraftBundle extends EventEmitter {
 	 * @param bundle Array of BundleItems representing valid files.
 	 */
 	public async checkFiles(bundle: BundleItem[]): Promise<void> {
-		// Normalise the base path so comparisons work consistently on Windows,
-		// where `this.options.path` may contain backslashes while bundle file
-		// paths have been normalised to forward slashes in checkBundle().
+		// If using instances, ensure the 'instances' directory exists
+		const instancesPath = `${this.options.path.replace(/\\/g, '/').replace(/\/+$/, '')}/instances`;
+		if (this.options.instance && !fs.existsSync(instancesPath)) {
+			fs.mkdirSync(instancesPath, { recursive: true });
+		}
+
+		this.removeFiles(this.findExtraFiles(bundle));
+	}
+
+	/**
+	 * Compares the bundle with the files on disk without modifying anything
+	 * (no generated file is written and the hash index is not updated).
+	 * Files are grouped by their `type` (Libraries, Native, Assets, Java, or
+	 * the custom types of files served from `url`).
+	 *
+	 * @param bundle Array of file items describing what needs to be on disk.
+	 */
+	public async verify(bundle: BundleItem[]): Promise<Omit<InstallationReport, 'version'>> {
 		const basePath = this.options.path.replace(/\\/g, '/').replace(/\/+$/, '');
+		const replaceName = `${getGameDirectory({ ...this.options, path: basePath })}/`;
+		const isIgnored = pathMatcher(this.options.ignored);
+		const index = new HashIndex(`${basePath}/cache/hash-index.json`);
 
-		// If using instances, ensure the 'instances' directory exists
-		let instancePath = '';
-		if (this.options.instance) {
-			if (!fs.existsSync(`${basePath}/instances`)) {
-				fs.mkdirSync(`${basePath}/instances`, { recursive: true });
+		const report: Omit<InstallationReport, 'version'> = {
+			path: basePath,
+			checkedAt: Date.now(),
+			ok: true,
+			missing: [],
+			corrupt: [],
+			sizeMismatch: [],
+			extra: [],
+			ignored: [],
+			categories: {}
+		};
+
+		const files = bundle
+			.filter(file => file.path)
+			.map(file => ({ ...file, path: path.resolve(this.options.path, file.path).replace(/\\/g, '/') }));
+
+		const toHash: Array<{ file: BundleItem; issue: InstallationIssue }> = [];
+		const classify = (list: InstallationIssue[] | null, issue: InstallationIssue) => {
+			const category = report.categories[issue.category] ??= { total: 0, ok: 0, missing: 0, corrupt: 0, sizeMismatch: 0, ignored: 0 };
+			category.total++;
+			if (list === report.missing) category.missing++;
+			else if (list === report.corrupt) category.corrupt++;
+			else if (list === report.sizeMismatch) category.sizeMismatch++;
+			else category.ok++;
+			list?.push(issue);
+		};
+
+		for (const file of files) {
+			const issue: InstallationIssue = {
+				path: file.path,
+				category: file.type ?? 'Custom',
+				url: file.url,
+				expectedSha1: file.sha1,
+				expectedSize: file.size
+			};
+			if (file.type === 'CFILE') {
+				issue.content = file.content ?? '';
+				issue.expectedSha1 = crypto.createHash('sha1').update(issue.content).digest('hex');
+			}
+
+			if (isIgnored(file.path.replace(replaceName, ''))) {
+				const category = report.categories[issue.category] ??= { total: 0, ok: 0, missing: 0, corrupt: 0, sizeMismatch: 0, ignored: 0 };
+				category.total++;
+				category.ignored++;
+				report.ignored.push(file.path);
+				continue;
+			}
+
+			let stat: fs.Stats | null = null;
+			try { stat = fs.statSync(file.path); } catch { /* does not exist */ }
+			if (!stat) {
+				classify(report.missing, issue);
+				continue;
+			}
+
+			issue.actualSize = stat.size;
+			if (file.size && stat.size !== file.size) {
+				classify(report.sizeMismatch, issue);
+				continue;
+			}
+
+			const known = issue.expectedSha1 && !this.options.deep && file.type !== 'CFILE' ? index.lookup(file.path, stat) : null;
+			if (known !== null) {
+				issue.actualSha1 = known;
+				classify(known === issue.expectedSha1 ? null : report.corrupt, issue);
+			} else if (issue.expectedSha1) {
+				toHash.push({ file, issue });
+			} else {
+				classify(null, issue);
 			}
-			instancePath = `/instances/${this.options.instance}`;
 		}
 
+		// ── Parallel hash verification ────────────────────────────────
+		let checked = 0;
+		let idx = 0;
+		const worker = async () => {
+			while (idx < toHash.length) {
+				const { file, issue } = toHash[idx++];
+				try {
+					issue.actualSha1 = await getFileHash(file.path);
+				} catch { /* unreadable: reported as corrupt */ }
+				classify(issue.actualSha1 === issue.expectedSha1 ? null : report.corrupt, issue);
+				this.emit('check', ++checked, toHash.length, 'Checking files');
+			}
+		};
+		const workers: Promise<void>[] = [];
+		for (let i = 0; i < Math.min(CHECK_CONCURRENCY, toHash.length); i++) workers.push(worker());
+		await Promise.all(workers);
+
+		report.extra = this.findExtraFiles(files);
+		report.ok = report.missing.length === 0 && report.corrupt.length === 0 && report.sizeMismatch.length === 0 && report.extra.length === 0;
+		return report;
+	}
+
+	/**
+	 * Lists the files (and empty folders) of the game or instance directory
+	 * that are neither part of the bundle, ignored nor protected. The loader,
+	 * runtime, cache and quarantine folders are never listed.
+	 *
+	 * @param bundle Array of BundleItems with resolved paths.
+	 */
+	public findExtraFiles(bundle: BundleItem[]): string[] {
+		// Normalise the base path so comparisons work consistently on Windows,
+		// where `this.options.path` may contain backslashes while bundle file
+		// paths have been normalised to forward slashes in checkBundle().
+		const basePath = this.options.path.replace(/\\/g, '/').replace(/\/+$/, '');
+		const rootPath = getGameDirectory({ ...this.options, path: basePath });
+
 		// Gather all existing files in the relevant directory
-		const allFiles = this.options.instance
-			? this.getFiles(`${basePath}${instancePath}`)
-			: this.getFiles(basePath);
+		const allFiles = this.getFiles(rootPath);
 
-		// Also gather files from "loader" and "runtime" directories to ignore
+		// Also gather files from "loader", "runtime", "cache" and "quarantine" directories to ignore
 		const ignoredFiles = [
 			...this.getFiles(`${basePath}/loader`),
-			...this.getFiles(`${basePath}/runtime`)
+			...this.getFiles(`${basePath}/runtime`),
+			...this.getFiles(`${basePath}/cache`),
+			...this.getFiles(`${basePath}/quarantine`)
 		];
 
-		// Convert custom ignored paths to actual file paths
-		for (let ignoredPath of this.options.ignored) {
-			// Normalise user-provided ignored entries (accept '/' or '\')
-			ignoredPath = `${basePath}${instancePath}/${ignoredPath.replace(/\\/g, '/').replace(/^\/+/, '')}`;
-			if (fs.existsSync(ignoredPath)) {
-				if (fs.statSync(ignoredPath).isDirectory()) {
-					// If it's a directory, add all files within it
-					ignoredFiles.push(...this.getFiles(ignoredPath));
-				} else {
-					// If it's a single file, just add that file
-					ignoredFiles.push(ignoredPath);
-				}
-			}
-		}
+		// A shared store placed inside the game root is not ours to clean up
+		const storePath = this.options.store?.path?.replace(/\\/g, '/');
+		if (storePath?.startsWith(`${basePath}/`)) ignoredFiles.push(...this.getFiles(storePath));
 
-		// Mark bundle paths as ignored (so we don't delete them)
+		// Mark bundle paths as ignored (so we don't delete them),
+		// along with any interrupted download that can still be resumed
 		bundle.forEach(file => {
-			ignoredFiles.push(file.path);
+			ignoredFiles.push(file.path, `${file.path}.part`, `${file.path}.part.json`);
 		});
 
 		// Use a Set with normalised separators for O(1), separator-agnostic lookup
 		const ignoredSet = new Set(ignoredFiles.map(p => p.replace(/\\/g, '/')));
 
-		// Filter out all ignored files from the main file list
-		const filesToDelete = allFiles.filter(file => !ignoredSet.has(file.replace(/\\/g, '/')));
+		// `ignored` and protected entries are glob patterns relative to the game/instance directory
+		const isKept = pathMatcher([...this.options.ignored, ...(this.options.cleanup?.protected ?? DEFAULT_PROTECTED)]);
 
-		// Remove each file or directory
-		for (const filePath of filesToDelete) {
-			try {
-				const stats = fs.statSync(filePath);
-				if (stats.isDirectory()) {
-					fs.rmSync(filePath, { recursive: true });
-				} else {
-					fs.unlinkSync(filePath);
+		return allFiles.filter(file => {
+			const normalised = file.replace(/\\/g, '/');
+			return !ignoredSet.has(normalised) && !isKept(normalised.slice(rootPath.length + 1));
+		});
+	}
 
-					// Clean up empty folders going upward until we hit the main path
-					let currentDir = path.dirname(filePath);
-					while (true) {
-						const normalisedCurrent = currentDir.replace(/\\/g, '/').replace(/\/+$/, '');
-						if (normalisedCurrent === basePath) break;
-						const dirContents = fs.readdirSync(currentDir);
-						if (dirContents.length === 0) {
-							fs.rmSync(currentDir);
-						}
-						const parent = path.dirname(currentDir);
-						if (parent === currentDir) break; // safety: hit filesystem root
-						currentDir = parent;
-					}
+	/**
+	 * Removes files or empty folders returned by findExtraFiles(), then the
+	 * folders left empty up to the game directory. Files are moved to the
+	 * quarantine (see MinecraftQuarantine) unless `cleanup.quarantine` is false.
+	 * With `cleanup.dryRun`, nothing is touched.
+	 *
+	 * Emits "cleanup" with the CleanupReport.
+	 *
+	 * @param files Paths returned by findExtraFiles()
+	 * @returns The paths removed (or that would be removed in a dry run)
+	 */
+	public removeFiles(files: string[]): string[] {
+		const basePath = this.options.path.replace(/\\/g, '/').replace(/\/+$/, '');
+		// Extra files all come from the game directory, which may lie outside `path`
+		const rootPath = path.resolve(getGameDirectory({ ...this.options, path: basePath })).replace(/\\/g, '/');
+		const cleanup = this.options.cleanup ?? {};
+		const report: CleanupReport = { dryRun: cleanup.dryRun ?? false, files: [], quarantine: null };
+
+		if (files.length === 0) return [];
+
+		if (report.dryRun) {
+			report.files = [...files];
+			this.emit('cleanup', report);
+			return report.files;
+		}
+
+		const folders = files.filter(file => { try { return fs.statSync(file).isDirectory(); } catch { return false; } });
+		let regular = files.filter(file => !folders.includes(file));
+
+		if (cleanup.quarantine !== false && regular.length > 0) {
+			const entry = new MinecraftQuarantine(basePath).store(regular, rootPath);
+			report.quarantine = entry.files.length > 0 ? entry.id : null;
+			regular = entry.files.map(relative => `${rootPath}/${relative}`);
+			report.files.push(...regular);
+		} else {
+			for (const filePath of regular) {
+				try {
+					fs.unlinkSync(filePath);
+					report.files.push(filePath);
+				} catch {
+					// If an error occurs (e.g. file locked or non-existent), skip it
+					continue;
 				}
+			}
+		}
+
+		for (const folder of folders) {
+			try {
+				fs.rmSync(folder, { recursive: true });
+				report.files.push(folder);
 			} catch {
-				// If an error occurs (e.g. file locked or non-existent), skip it
 				continue;
 			}
 		}
+
+		// Clean up empty folders going upward until we hit the game directory
+		for (const filePath of report.files) {
+			let currentDir = path.dirname(filePath);
+			while (true) {
+				const normalisedCurrent = path.resolve(currentDir).replace(/\\/g, '/');
+				if (normalisedCurrent === rootPath || normalisedCurrent === path.resolve(basePath).replace(/\\/g, '/')) break;
+				try {
+					if (fs.readdirSync(currentDir).length === 0) fs.rmdirSync(currentDir);
+				} catch {
+					break;
+				}
+				const parent = path.dirname(currentDir);
+				if (parent === currentDir) break; // safety: hit filesystem root
+				currentDir = parent;
+			}
+		}
+
+		this.emit('cleanup', report);
+		return report.files;
 	}
 
 	/**
@@ -0,0 +1,228 @@
+/**
+ * @author Luuxis
+ * Luuxis License v1.0 (voir fichier LICENSE pour les détails en FR/EN)
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { GameSessionExit, MinecraftCrashKind, MinecraftCrashReport } from '../types.js';
+
+export type { MinecraftCrashKind, MinecraftCrashReport };
+
+/**
+ * Known crash signatures, checked in order against the crash report,
+ * the JVM error log and the last lines of game output.
+ */
+const SIGNATURES: Array<{ kind: MinecraftCrashKind; pattern: RegExp; hint: string }> = [
+	{
+		kind: 'out_of_memory',
+		pattern: /java\.lang\.OutOfMemoryError|Could not reserve enough space for .*object heap|There is insufficient memory for the Java Runtime Environment/,
+		hint: 'The game ran out of memory. Increase memory.max, or lower it if the system itself is short on RAM.'
+	},
+	{
+		kind: 'java_version',
+		pattern: /UnsupportedClassVersionError|has been compiled by a more recent version of the Java Runtime|Unrecognized option: --add-opens|requires Java \d+/,
+		hint: 'The selected Java runtime is not compatible with this version. Use the runtime required by the version JSON.'
+	},
+	{
+		kind: 'missing_natives',
+		pattern: /UnsatisfiedLinkError|no lwjgl\w* in java\.library\.path|Failed to locate library: \S+|Can't load IA 32-bit \.dll/,
+		hint: 'Native libraries could not be loaded. Verify the installation or check that Java matches the system architecture.'
+	},
+	{
+		kind: 'mixin',
+		pattern: /MixinApplyError|MixinTransformerError|Mixin apply(?: for mod \S+)? failed|InvalidMixinException|Mixin prepare failed/,
+		hint: 'A mod failed to apply its mixins. One of the suspected mods is likely incompatible with this version or another mod.'
+	}
+];
+
+/**
+ * Locates and parses the crash artefacts (crash-reports/*.txt and hs_err_pid*.log)
+ * written in a game directory after the game exited abnormally.
+ */
+export default class MinecraftCrash {
+	private readonly gameDirectory: string;
+
+	constructor(gameDirectory: string) {
+		this.gameDirectory = gameDirectory;
+	}
+
+	/**
+	 * Builds a crash report for a finished session. Several sessions may share
+	 * a game directory, so the crash report is the one the game says it saved
+	 * and the JVM error log the one named after the process id; the newest
+	 * file written since the session started is only a fallback. Never
+	 * throws: an artefact that cannot be read is left out of the report.
+	 *
+	 * @param exit  How the game process ended
+	 * @param since Epoch ms the session started; older artefacts are ignored
+	 * @param lines Last lines of game output, used when no report file was written
+	 * @param pid   Process id of the game
+	 */
+	public analyse(exit: GameSessionExit, since: number, lines: string[] = [], pid?: number): MinecraftCrashReport {
+		let crashReportPath = this.findPrintedReport(lines)
+			?? this.findLatest(path.join(this.gameDirectory, 'crash-reports'), /^crash-.*\.txt$/, since);
+		let jvmErrorPath = this.findLatest(this.gameDirectory, pid === undefined ? /^hs_err_pid\d+\.log$/ : new RegExp(`^hs_err_pid${pid}\\.log$`), since);
+
+		// Removed or unreadable since it was found
+		const crashReport = crashReportPath ? readText(crashReportPath) : null;
+		const jvmError = jvmErrorPath ? readText(jvmErrorPath) : null;
+		if (crashReport === null) crashReportPath = null;
+		if (jvmError === null) jvmErrorPath = null;
+
+		const report: MinecraftCrashReport = {
+			exitCode: exit.code,
+			signal: exit.signal,
+			kind: 'unknown',
+			hint: null,
+			description: null,
+			suspectedMods: [],
+			stackTrace: null,
+			crashReportPath,
+			jvmErrorPath,
+			time: Date.now()
+		};
+
+		let searchable = lines.join('\n');
+
+		if (crashReport !== null) {
+			Object.assign(report, this.parseCrashReport(crashReport));
+			searchable = `${crashReport}\n${searchable}`;
+		}
+
+		if (jvmError !== null) {
+			report.description ??= this.parseJvmError(jvmError);
+			searchable = `${searchable}\n${jvmError}`;
+		}
+
+		// Without any report file, fall back to the first exception in the output
+		if (!report.stackTrace) {
+			const start = lines.findIndex(line => /^(?:Exception in thread|[\w$.]+(?:Exception|Error)\b)/.test(line.trim()));
+			if (start !== -1) {
+				report.stackTrace = lines.slice(start).filter(line => line.trim()).join('\n');
+				report.description ??= lines[start].trim();
+			}
+		}
+
+		const signature = SIGNATURES.find(s => s.pattern.test(searchable));
+		if (signature) {
+			report.kind = signature.kind;
+			report.hint = signature.hint;
+		}
+
+		return report;
+	}
+
+	/**
+	 * Extracts description, suspected mods and stack trace from a
+	 * Minecraft (or Forge) crash-reports/*.txt file.
+	 */
+	public parseCrashReport(content: string): Pick<MinecraftCrashReport, 'description' | 'suspectedMods' | 'stackTrace'> {
+		const lines = content.split(/\r?\n/);
+		let description: string | null = null;
+		let stackTrace: string | null = null;
+		const suspectedMods: string[] = [];
+
+		const descriptionIndex = lines.findIndex(line => line.startsWith('Description: '));
+		if (descriptionIndex !== -1) {
+			description = lines[descriptionIndex].slice('Description: '.length).trim();
+
+			// The stack trace follows the description, up to the "detailed walkthrough" section
+			const trace: string[] = [];
+			for (const line of lines.slice(descriptionIndex + 1)) {
+				if (line.startsWith('A detailed walkthrough of the error')) break;
+				trace.push(line);
+			}
+			stackTrace = trace.join('\n').trim() || null;
+		}
+
+		for (let i = 0; i < lines.length; i++) {
+			const match = lines[i].match(/^\s*Suspected Mods?: ?(.*)$/);
+			if (!match) continue;
+
+			const value = match[1].trim();
+			if (value) {
+				if (!/^(none|unknown)$/i.test(value)) suspectedMods.push(...value.split(',').map(v => v.trim()).filter(Boolean));
+				continue;
+			}
+
+			// Forge lists suspects on the following indented lines
+			for (let j = i + 1; j < lines.length && /^\s+\S/.test(lines[j]); j++) {
+				const mod = lines[j].trim();
+				if (!/^(none|unknown)$/i.test(mod)) suspectedMods.push(mod);
+			}
+		}
+
+		return {
+			description,
+			suspectedMods: Array.from(new Set(suspectedMods)),
+			stackTrace
+		};
+	}
+
+	/**
+	 * Returns a one line summary of an hs_err_pid*.log written by a crashed JVM.
+	 */
+	public parseJvmError(content: string): string | null {
+		const lines = content.split(/\r?\n/);
+		const header = lines.findIndex(line => line.includes('A fatal error has been detected by the Java Runtime Environment'));
+
+		let error: string | null = null;
+		if (header !== -1) {
+			error = lines.slice(header + 1).map(line => line.replace(/^#\s*/, '').trim()).find(Boolean) ?? null;
+		} else {
+			error = lines.find(line => /^#\s+\S/.test(line))?.replace(/^#\s*/, '').trim() ?? null;
+		}
+
+		const frameIndex = lines.findIndex(line => line.startsWith('# Problematic frame:'));
+		const frame = frameIndex !== -1 ? lines[frameIndex + 1]?.replace(/^#\s*/, '').trim() : null;
+
+		if (error && frame) return `${error} (${frame})`;
+		return error;
+	}
+
+	/**
+	 * Returns the crash report the game printed it saved
+	 * ("Crash report saved to: <path>"), if the file exists.
+	 */
+	private findPrintedReport(lines: string[]): string | null {
+		for (let i = lines.length - 1; i >= 0; i--) {
+			const match = lines[i].match(/(?:Crash report saved to|This crash report has been saved to):\s*(?:#@!@#\s*)?(\S.*\.txt)\s*$/);
+			if (!match) continue;
+
+			const file = path.resolve(this.gameDirectory, match[1]);
+			if (fs.existsSync(file)) return file.replace(/\\/g, '/');
+		}
+		return null;
+	}
+
+	/**
+	 * Returns the most recently modified file in a folder whose name matches
+	 * the pattern and that was written after `since`.
+	 */
+	private findLatest(folder: string, pattern: RegExp, since: number): string | null {
+		let names: string[];
+		try { names = fs.readdirSync(folder); } catch { return null; }
+
+		let latest: { file: string; mtime: number } | null = null;
+		for (const name of names) {
+			if (!pattern.test(name)) continue;
+
+			const file = path.join(folder, name);
+			let mtime: number;
+			try { mtime = fs.statSync(file).mtimeMs; } catch { continue; }
+			if (mtime < since) continue;
+			if (!latest || mtime > latest.mtime) latest = { file, mtime };
+		}
+		return latest ? latest.file.replace(/\\/g, '/') : null;
+	}
+}
+
+/** Reads a text file, or null if it cannot be read (gone, a folder, no access). */
+function readText(file: string): string | null {
+	try {
+		return fs.readFileSync(file, 'utf-8');
+	} catch {
+		return null;
+	}
+}
@@ -3,18 +3,27 @@
  * Luuxis License v1.0 (voir fichier LICENSE pour les détails en FR/EN)
  */
 
-import os from 'os';
 import path from 'path';
 import fs from 'fs';
 import EventEmitter from 'events';
 
-import { getFileFromArchive } from '../utils/Index.js';
+import { getFileFromArchive, getFileHash } from '../utils/Index.js';
+import untar from '../utils/untar.js';
 import Downloader from '../utils/Downloader.js';
+import MetadataCache from '../utils/MetadataCache.js';
+import { getJavaProviders, AzulProvider, JavaDiscovery } from '../Minecraft-Java/index.js';
+import { findJavaExecutable, getPlatformArch, stripArchiveExtension } from '../Minecraft-Java/helpers.js';
 import type {
 	LaunchOptions,
 	MinecraftVersionJSON,
 	JavaDownloadResult,
 	JavaFileItem,
+	JavaArchivePackage,
+	JavaArchiveType,
+	JavaChecksum,
+	JavaFilesPackage,
+	JavaProvider,
+	JavaRuntimeRequest,
 	ArchiveEntry
 } from '../types.js';
 
@@ -22,7 +31,8 @@ export type { JavaDownloadResult, JavaFileItem };
 
 /**
  * Manages the download and extraction of the correct Java runtime for Minecraft.
- * It supports both Mojang's curated list and Azul fallback.
+ * Runtimes come from the providers selected by `java.provider` (Mojang's
+ * curated list, then Azul, by default), tried in order.
  */
 export default class JavaDownloader extends EventEmitter {
 	private options: LaunchOptions;
@@ -33,226 +43,253 @@ export default class JavaDownloader extends EventEmitter {
 	}
 
 	/**
-	 * Retrieves Java files from Mojang's runtime metadata if possible,
-	 * otherwise falls back to getJavaOther().
+	 * Asks each provider in turn for a runtime matching the version JSON
+	 * (or the forced `java.version`). A provider without a build for this
+	 * platform, or whose host cannot be reached, hands over to the next one.
 	 *
 	 * @param jsonversion A JSON object describing the Minecraft version (with optional javaVersion).
 	 * @returns An object containing a list of JavaFileItems and the final path to "java".
 	 */
 	public async getJavaFiles(jsonversion: MinecraftVersionJSON): Promise<JavaDownloadResult> {
-		// If a specific version is forced, delegate to getJavaOther() immediately
-		if (this.options.java.version) {
-			return this.getJavaOther(jsonversion, this.options.java.version);
+		if (this.options.java.discover) {
+			const installed = await this.getInstalledJava(jsonversion);
+			if (installed) return installed;
 		}
+		if (this.options.offline) return this.getLocalJava(jsonversion);
 
-		// OS-to-architecture mapping for Mojang's curated Java.
-		const archMapping: Record<string, Record<string, string>> = {
-			win32: { x64: 'windows-x64', ia32: 'windows-x86', arm64: 'windows-arm64' },
-			darwin: { x64: 'mac-os', arm64: this.options.intelEnabledMac ? 'mac-os' : 'mac-os-arm64' },
-			linux: { x64: 'linux', ia32: 'linux-i386' }
-		};
-
-		const osPlatform = os.platform();    // "win32", "darwin", "linux", ...
-		const arch = os.arch();             // "x64", "arm64", "ia32", ...
-
-		const javaVersionName = jsonversion.javaVersion?.component || 'jre-legacy';
-		const osArchMapping = archMapping[osPlatform];
-		const files: JavaFileItem[] = [];
-
-		// If we don't have a valid mapping for the current OS, fallback to Adoptium
-		if (!osArchMapping) {
-			return this.getJavaOther(jsonversion);
-		}
-
-		// Determine the OS-specific identifier
-		const archOs = osArchMapping[arch];
-		if (!archOs) {
-			// If we can't match the arch in the sub-object, fallback
-			return this.getJavaOther(jsonversion);
-		}
-
-		// Fetch Mojang's Java runtime metadata
-		const url = 'https://launchermeta.mojang.com/v1/products/java-runtime/2ec0cc96c44e5a76b9c8b7c39df7210883d12871/all.json';
-		const javaVersionsJson = await fetch(url).then(res => res.json());
-
-		const versionName = javaVersionsJson[archOs]?.[javaVersionName]?.[0]?.version?.name;
-		if (!versionName) {
-			return this.getJavaOther(jsonversion);
+		let providers: JavaProvider[];
+		try {
+			providers = getJavaProviders(this.options.java);
+		} catch (err: any) {
+			return { files: [], path: '', error: true, message: err.message };
 		}
 
-		// Fetch the runtime manifest which lists individual files
-		const manifestUrl = javaVersionsJson[archOs][javaVersionName][0]?.manifest?.url;
-		const manifest = await fetch(manifestUrl).then(res => res.json());
-		const manifestEntries: Array<[string, any]> = Object.entries(manifest.files);
-
-		// Identify the Java executable in the manifest
-		const javaExeKey = process.platform === 'win32' ? 'bin/javaw.exe' : 'bin/java';
-		const javaEntry = manifestEntries.find(([relPath]) => relPath.endsWith(javaExeKey));
-		if (!javaEntry) {
-			// If we can't find the executable, fallback
-			return this.getJavaOther(jsonversion);
-		}
-
-		const toDelete = javaEntry[0].replace(javaExeKey, '');
-		for (const [relPath, info] of manifestEntries) {
-			if (info.type === 'directory') continue;
-			if (!info.downloads) continue;
-
-			files.push({
-				path: `runtime/${javaVersionName}/${relPath.replace(toDelete, '')}`,
-				executable: info.executable,
-				sha1: info.downloads.raw.sha1,
-				size: info.downloads.raw.size,
-				url: info.downloads.raw.url,
-				type: 'Java'
-			});
+		const request = this.getRuntimeRequest(jsonversion);
+		const failures: string[] = [];
+		for (const provider of providers) {
+			try {
+				const result = await this.getProviderJava(provider, request);
+				if (result) return result;
+				failures.push(`${provider.name}: no runtime for this platform`);
+			} catch (err: any) {
+				if (this.options.signal?.aborted) throw err;
+				failures.push(`${provider.name}: ${err?.message ?? err}`);
+			}
 		}
 
 		return {
-			files,
-			path: path.resolve(
-				this.options.path,
-				`runtime/${javaVersionName}`,
-				'bin',
-				process.platform === 'win32' ? 'javaw.exe' : 'java'
-			)
+			files: [],
+			path: '',
+			error: true,
+			message: `No Java ${request.majorVersion} runtime found for ${request.platform}-${request.arch} (${failures.join('; ')})`
 		};
 	}
 
 	/**
-	 * Fallback method to download Java from Adoptium if Mojang's metadata is unavailable
-	 * or doesn't have the appropriate runtime for the user's platform/arch.
+	 * Looks for a Java already installed on this machine with the major
+	 * version and architecture the game needs (see JavaDiscovery).
+	 *
+	 * @param jsonversion A Minecraft version JSON (with optional javaVersion).
+	 * @returns null if none is compatible
+	 */
+	public async getInstalledJava(jsonversion: MinecraftVersionJSON): Promise<JavaDownloadResult | null> {
+		const request = this.getRuntimeRequest(jsonversion);
+		const installed = await new JavaDiscovery(this.options.path).findCompatible(request.majorVersion, request.arch);
+		if (!installed) return null;
+
+		// Like Mojang's runtimes, start the game without a console window on Windows
+		const javaw = installed.path.replace(/java\.exe$/i, 'javaw.exe');
+		return { files: [], path: fs.existsSync(javaw) ? javaw : installed.path, provider: installed.source };
+	}
+
+	/**
+	 * Downloads Java from Azul, whatever `java.provider` says.
+	 * Kept for launchers calling it directly; getJavaFiles() goes through the providers.
 	 *
 	 * @param jsonversion A Minecraft version JSON (with optional javaVersion).
 	 * @param versionDownload A forced Java version (string) if provided by the user.
 	 */
 	public async getJavaOther(jsonversion: MinecraftVersionJSON, versionDownload?: string): Promise<JavaDownloadResult> {
-		const { platform, arch } = this.getPlatformArch();
-		const majorVersion = versionDownload || jsonversion.javaVersion?.majorVersion || 8;
+		const request = this.getRuntimeRequest(jsonversion, versionDownload);
+		const result = await this.getProviderJava(new AzulProvider(), request);
+		return result ?? { files: [], path: '', error: true, message: 'No Java versions found for the specified parameters.' };
+	}
+
+	/**
+	 * Resolves a runtime with one provider. Mojang-style runtimes are returned
+	 * as files to download with the game; archives are downloaded and
+	 * extracted right away.
+	 *
+	 * @returns null if the provider has no runtime for the request
+	 */
+	private async getProviderJava(provider: JavaProvider, request: JavaRuntimeRequest): Promise<JavaDownloadResult | null> {
+		const runtime = await provider.resolve(request, new MetadataCache(this.options.cache));
+		if (!runtime) return null;
+
+		if (runtime.kind === 'files') return this.getRuntimeFiles(runtime);
+		return this.installArchive(runtime, request.majorVersion);
+	}
+
+	private getRuntimeFiles(runtime: JavaFilesPackage): JavaDownloadResult {
+		return {
+			files: runtime.files.map(file => ({ ...file, path: `runtime/${runtime.folder}/${file.path}` })),
+			path: path.resolve(this.options.path, `runtime/${runtime.folder}`, runtime.executable),
+			provider: runtime.provider
+		};
+	}
+
+	/**
+	 * Installs an archive runtime into runtime/jre-<major>/<archive name>/,
+	 * unless it is already there.
+	 */
+	private async installArchive(runtime: JavaArchivePackage, majorVersion: number): Promise<JavaDownloadResult> {
 		const pathFolder = path.resolve(this.options.path, `runtime/jre-${majorVersion}`);
-		const javaType = this.options.java.type ? this.options.java.type : 'jre';
-
-		// Build the API query to fetch the Java version
-		const queryParams = new URLSearchParams({
-			java_version: majorVersion.toString(),
-			os: platform,
-			arch: arch,
-			archive_type: 'zip',
-			java_package_type: javaType
-		});
-		const javaVersionURL = `https://api.azul.com/metadata/v1/zulu/packages/?${queryParams.toString()}`;
-		let javaVersions = await fetch(javaVersionURL).then(res => res.json());
-		if (!Array.isArray(javaVersions) || javaVersions.length === 0) {
-			return { files: [], path: '', error: true, message: 'No Java versions found for the specified parameters.' };
-		}
-		javaVersions = javaVersions[0];
-
-		let javaExePath = path.join(pathFolder, javaVersions.name.replace('.zip', ''), 'bin', 'java');
-		if (platform === 'macos') {
-			let pathBin = path.join(pathFolder, javaVersions.name.replace('.zip', ''), "bin");
-			if (fs.existsSync(pathBin)) {
-				let pathBin = fs.readFileSync(path.join(pathFolder, javaVersions.name.replace('.zip', ''), "bin"), 'utf8').toString();
-				javaExePath = path.join(pathFolder, javaVersions.name.replace('.zip', ''), pathBin, 'java');
-			} else {
-				javaExePath = path.join(pathFolder, javaVersions.name.replace('.zip', ''), 'Contents', 'Home', 'bin', 'java');
-			}
-		}
+		const home = path.join(pathFolder, stripArchiveExtension(runtime.fileName));
 
-		if (!fs.existsSync(javaExePath)) {
+		let javaExePath = findJavaExecutable(home, runtime.executable);
+		if (!javaExePath) {
 			await this.verifyAndDownloadFile({
-				filePath: path.join(pathFolder, javaVersions.name),
+				filePath: path.join(pathFolder, runtime.fileName),
 				pathFolder: pathFolder,
-				fileName: javaVersions.name,
-				url: javaVersions.download_url
-			})
-
-			const entries = await getFileFromArchive(path.join(pathFolder, javaVersions.name), null, null, true) as ArchiveEntry[];
-
-			for (const entry of entries) {
-				if (entry.name.startsWith('META-INF')) continue;
+				fileName: runtime.fileName,
+				url: runtime.url,
+				checksum: runtime.checksum
+			});
 
-				if (entry.isDirectory) {
-					fs.mkdirSync(`${pathFolder}/${entry.name}`, { recursive: true, mode: 0o777 });
-					continue;
+			// Extract next to the final folder and rename it into place, so an
+			// interrupted extraction never leaves a half runtime behind
+			const tmpHome = `${home}.${process.pid}.tmp`;
+			try {
+				fs.rmSync(tmpHome, { recursive: true, force: true });
+				await this.extractArchive(path.join(pathFolder, runtime.fileName), tmpHome, runtime.archiveType);
+				if (!findJavaExecutable(tmpHome, runtime.executable)) {
+					throw new Error(`No java executable found in ${runtime.fileName}`);
 				}
-				fs.writeFileSync(`${pathFolder}/${entry.name}`, entry.data, { mode: 0o777 });
+				fs.rmSync(home, { recursive: true, force: true });
+				fs.renameSync(tmpHome, home);
+			} finally {
+				fs.rmSync(tmpHome, { recursive: true, force: true });
 			}
+			javaExePath = findJavaExecutable(home, runtime.executable);
+		}
 
-			if (platform === 'macos') {
-				try {
-					let pathBin = fs.readFileSync(path.join(pathFolder, javaVersions.name.replace('.zip', ''), "bin"), 'utf8').toString();
-					if (!fs.existsSync(pathBin)) pathBin = path.join(pathBin, 'Contents', 'Home', 'bin');
-					javaExePath = path.join(pathFolder, javaVersions.name.replace('.zip', ''), pathBin, 'java');
-				} catch (_) {
-				}
-			}
+		if (!javaExePath) {
+			return { files: [], path: '', error: true, message: `No java executable found in ${runtime.fileName}` };
 		}
+		return { files: [], path: javaExePath, provider: runtime.provider };
+	}
+
+	private async extractArchive(archive: string, destination: string, archiveType: JavaArchiveType): Promise<void> {
+		if (archiveType === 'tar.gz') return untar(archive, destination);
 
-		return { files: [], path: javaExePath };
+		const entries = await getFileFromArchive(archive, null, null, true) as ArchiveEntry[];
+		for (const entry of entries) {
+			if (entry.name.startsWith('META-INF')) continue;
+
+			if (entry.isDirectory) {
+				fs.mkdirSync(`${destination}/${entry.name}`, { recursive: true, mode: 0o777 });
+				continue;
+			}
+			fs.mkdirSync(path.dirname(`${destination}/${entry.name}`), { recursive: true, mode: 0o777 });
+			fs.writeFileSync(`${destination}/${entry.name}`, entry.data, { mode: 0o777 });
+		}
 	}
 
 	/**
-	 * Maps the Node `os.platform()` and `os.arch()` to Adoptium's expected format.
-	 * Apple Silicon can optionally download x64 if `intelEnabledMac` is true.
+	 * Offline counterpart of getJavaFiles(): finds a runtime previously installed
+	 * under runtime/<component> (Mojang) or runtime/jre-<major> (archives).
+	 * No files are returned, so nothing is verified or downloaded.
+	 *
+	 * @param jsonversion A Minecraft version JSON (with optional javaVersion).
 	 */
-	private getPlatformArch(): { platform: string; arch: string } {
-		const platformMap: Record<string, string> = {
-			win32: 'windows',
-			darwin: 'macos',
-			linux: 'linux'
-		};
-		const archMap: Record<string, string> = {
-			x64: 'x64',
-			ia32: 'x32',
-			arm64: 'aarch64',
-			arm: 'arm'
-		};
+	public async getLocalJava(jsonversion: MinecraftVersionJSON): Promise<JavaDownloadResult> {
+		const binary = process.platform === 'win32' ? 'javaw.exe' : 'java';
+		const candidates: string[] = [];
+
+		if (!this.options.java.version) {
+			const component = jsonversion.javaVersion?.component || 'jre-legacy';
+			candidates.push(path.resolve(this.options.path, `runtime/${component}`, 'bin', binary));
+		}
 
-		const mappedPlatform = platformMap[os.platform()] || os.platform();
-		let mappedArch = archMap[os.arch()] || os.arch();
+		// Archives are extracted in a versioned sub folder of runtime/jre-<major>
+		const majorVersion = this.options.java.version || jsonversion.javaVersion?.majorVersion || 8;
+		const archiveFolder = path.resolve(this.options.path, `runtime/jre-${majorVersion}`);
+		if (fs.existsSync(archiveFolder)) {
+			for (const entry of fs.readdirSync(archiveFolder)) {
+				const javaPath = findJavaExecutable(path.join(archiveFolder, entry));
+				if (javaPath) candidates.push(javaPath);
+			}
+		}
 
-		// Force x64 if Apple Silicon but user wants to use Intel-based Java
-		if (os.platform() === 'darwin' && os.arch() === 'arm64' && this.options.intelEnabledMac) {
-			mappedArch = 'x64';
+		const javaPath = candidates.find(candidate => fs.existsSync(candidate));
+		if (!javaPath) {
+			return { files: [], path: '', error: true, message: `No Java ${majorVersion} runtime installed, cannot launch offline.` };
 		}
+		return { files: [], path: javaPath };
+	}
 
-		return { platform: mappedPlatform, arch: mappedArch };
+	/**
+	 * Describes the runtime needed by a version: major version, Mojang
+	 * component, image type and the platform/arch names used by providers.
+	 */
+	private getRuntimeRequest(jsonversion: MinecraftVersionJSON, versionDownload?: string): JavaRuntimeRequest {
+		const forced = versionDownload || this.options.java.version;
+		return {
+			majorVersion: Number(forced || jsonversion.javaVersion?.majorVersion || 8),
+			// Versions without javaVersion predate Java 16 and use Mojang's jre-legacy
+			component: forced ? undefined : jsonversion.javaVersion ? jsonversion.javaVersion.component : 'jre-legacy',
+			imageType: this.options.java.type || 'jre',
+			...getPlatformArch(this.options.intelEnabledMac)
+		};
 	}
 
 	/**
 	 * Verifies if the Java archive already exists and matches the expected checksum.
 	 * If it doesn't exist or fails the hash check, it downloads from the given URL.
-	 * 
+	 * Without a checksum, an existing archive is trusted.
+	 *
 	 * @param params.filePath   The local file path
 	 * @param params.pathFolder The folder to place the file in
 	 * @param params.fileName   The name of the file
 	 * @param params.url        The remote download URL
-	 * @param params.checksum   Expected SHA-256 hash
+	 * @param params.checksum   Expected hash published by the provider
+	 * @throws If the downloaded archive does not match the checksum
 	 */
 	private async verifyAndDownloadFile({
 		filePath,
 		pathFolder,
 		fileName,
-		url
+		url,
+		checksum
 	}: {
 		filePath: string;
 		pathFolder: string;
 		fileName: string;
 		url: string;
+		checksum?: JavaChecksum;
 	}): Promise<void> {
+		const matches = async () => !checksum || (await getFileHash(filePath, checksum.algorithm)) === checksum.value.toLowerCase();
+
+		if (fs.existsSync(filePath)) {
+			if (await matches()) return;
+			fs.unlinkSync(filePath);
+		}
 
 		// If not found or failed checksum, download anew
-		if (!fs.existsSync(filePath)) {
-			fs.mkdirSync(pathFolder, { recursive: true });
-			const download = new Downloader();
+		fs.mkdirSync(pathFolder, { recursive: true });
+		const download = new Downloader(this.options.downloader);
 
-			// Relay progress events
-			download.on('progress', (downloaded: number, size: number) => {
-				this.emit('progress', downloaded, size, fileName);
-			});
+		// Relay progress events
+		download.on('progress', (downloaded: number, size: number) => {
+			this.emit('progress', downloaded, size, fileName);
+		});
+
+		// Start download
+		await download.downloadFile(url, pathFolder, fileName);
 
-			// Start download
-			await download.downloadFile(url, pathFolder, fileName);
+		if (!(await matches())) {
+			fs.unlinkSync(filePath);
+			throw new Error(`${checksum!.algorithm} mismatch for ${fileName}, the download is corrupted`);
 		}
 	}
 }
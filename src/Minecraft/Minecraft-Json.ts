@@ -4,11 +4,13 @@
  */
 
 import os from 'os';
+import fs from 'fs';
 import MinecraftNativeLinuxARM from './Minecraft-Lwjgl-Native.js';
+import MetadataCache from '../utils/MetadataCache.js';
+import VersionCatalog from './Minecraft-Versions.js';
 import type {
 	MinecraftVersionJSON,
 	VersionEntry,
-	MojangVersionManifest,
 	GetInfoVersionResult,
 	GetInfoVersionError,
 	LaunchOptions
@@ -18,7 +20,11 @@ export type { GetInfoVersionResult, GetInfoVersionError };
 
 /**
  * This class retrieves Minecraft version information from Mojang's
- * version manifest, and optionally processes the JSON for ARM-based Linux.
+ * version manifest (through VersionCatalog), and optionally processes the JSON for ARM-based Linux.
+ *
+ * Versions missing from the manifest are read from versions/<id>/<id>.json,
+ * so custom versions (OptiFine-style clients, patched builds) can be launched.
+ * Their `inheritsFrom` chain is resolved and merged like the vanilla launcher does.
  */
 export default class Json {
 	private readonly options: LaunchOptions;
@@ -28,50 +34,152 @@ export default class Json {
 	}
 
 	/**
-	 * Fetches the Mojang version manifest, resolves the intended version (release, snapshot, etc.),
-	 * and returns the associated JSON object for that version.
-	 * If the system is Linux ARM, it will run additional processing on the JSON.
+	 * Resolves the intended version (release, snapshot, local custom version, etc.)
+	 * and returns the associated JSON object, merged with the versions it inherits from.
+	 * Offline, only the JSONs saved under versions/ are used.
 	 *
-	 * @returns An object containing { InfoVersion, json, version }, or an error object.
+	 * @returns An object containing { InfoVersion, json, version, inherited }, or an error object.
 	 */
 	public async GetInfoVersion(): Promise<GetInfoVersionResult | GetInfoVersionError> {
-		let { version } = this.options;
-
-		// Fetch the version manifest
-		const response = await fetch(
-			`https://launchermeta.mojang.com/mc/game/version_manifest_v2.json?_t=${new Date().toISOString()}`
-		);
-		const manifest: MojangVersionManifest = await response.json();
-
-		// Resolve "latest_release"/"latest_snapshot" shorthands
-		if (version === 'latest_release' || version === 'r' || version === 'lr') {
-			version = manifest.latest.release;
-		} else if (version === 'latest_snapshot' || version === 's' || version === 'ls') {
-			version = manifest.latest.snapshot;
+		const { version } = this.options;
+
+		if (this.options.offline && ['latest_release', 'r', 'lr', 'latest_snapshot', 's', 'ls'].includes(version)) {
+			return {
+				error: true,
+				message: `Cannot resolve "${version}" in offline mode, use an explicit version.`
+			};
 		}
 
-		// Find the matching version info from the manifest
-		const matchedVersion = manifest.versions.find((v) => v.id === version);
-		if (!matchedVersion) {
+		const root = await this.GetVersion(version);
+		if (!root) {
+			const jsonPath = `${this.options.path}/versions/${version}/${version}.json`;
 			return {
 				error: true,
-				message: `Minecraft ${version} is not found.`
+				message: this.options.offline
+					? `Minecraft ${version} is not installed (missing ${jsonPath}), cannot launch offline.`
+					: `Minecraft ${version} is not found.`
 			};
 		}
 
-		// Fetch the detailed version JSON from Mojang
-		const jsonResponse = await fetch(matchedVersion.url);
-		let versionJson = await jsonResponse.json();
+		// Walk up the inheritsFrom chain, the version itself first
+		const chain = [root];
+		for (let parentId = root.json.inheritsFrom; parentId; parentId = chain[chain.length - 1].json.inheritsFrom) {
+			const ids = chain.map(entry => entry.json.id);
+			if (ids.includes(parentId)) {
+				return {
+					error: true,
+					message: `Minecraft ${version} inherits from itself (${[...ids, parentId].join(' -> ')}).`
+				};
+			}
 
-		// If on Linux ARM, run additional processing
-		if (os.platform() === 'linux' && os.arch().startsWith('arm')) {
-			versionJson = await new MinecraftNativeLinuxARM(this.options).ProcessJson(versionJson);
+			const parent = await this.GetVersion(parentId);
+			if (!parent) {
+				return {
+					error: true,
+					message: `Minecraft ${parentId} (inherited by ${ids[ids.length - 1]}) is not found.`
+				};
+			}
+			chain.push(parent);
+		}
+
+		// Merge from the base version down to the requested one
+		let versionJson = chain[chain.length - 1].json;
+		for (let i = chain.length - 2; i >= 0; i--) {
+			const child = chain[i].json;
+			const ownJar = child.downloads?.client || fs.existsSync(`${this.options.path}/versions/${child.id}/${child.id}.jar`);
+			const parentJar = versionJson.jar ?? versionJson.id;
+			const merged = mergeVersionJson(versionJson, child);
+			merged.jar = child.jar ?? (ownJar ? child.id : parentJar);
+
+			// The inherited client download only describes the parent's jar: checked
+			// against another jar (e.g. a patched one), it would overwrite it with vanilla
+			if (!child.downloads?.client && merged.jar !== parentJar) {
+				const { client, ...downloads } = merged.downloads;
+				merged.downloads = downloads as MinecraftVersionJSON['downloads'];
+			}
+			versionJson = merged;
 		}
 
 		return {
-			InfoVersion: matchedVersion,
+			InfoVersion: root.InfoVersion,
 			json: versionJson,
-			version
+			version: root.InfoVersion.id,
+			inherited: chain.slice(1).filter(entry => !entry.local).map(entry => entry.json)
 		};
 	}
+
+	/**
+	 * Loads a single version JSON, without resolving what it inherits from:
+	 * from Mojang's manifest when online and listed there, otherwise from
+	 * versions/<id>/<id>.json.
+	 *
+	 * @returns null if the version is neither in the manifest nor on disk
+	 */
+	private async GetVersion(id: string): Promise<{ InfoVersion: VersionEntry; json: MinecraftVersionJSON; local: boolean } | null> {
+		if (!this.options.offline) {
+			// Resolve "latest_release"/"latest_snapshot" shorthands and find the
+			// matching version info in the manifest (revalidated through the metadata cache)
+			const matchedVersion = await new VersionCatalog(this.options.cache).get(id);
+			if (matchedVersion) {
+				// Fetch the detailed version JSON from Mojang
+				let versionJson: MinecraftVersionJSON = await new MetadataCache(this.options.cache).json(matchedVersion.url, 'version');
+
+				// If on Linux ARM, run additional processing
+				if (os.platform() === 'linux' && os.arch().startsWith('arm')) {
+					versionJson = await new MinecraftNativeLinuxARM(this.options).ProcessJson(versionJson);
+				}
+				return { InfoVersion: matchedVersion, json: versionJson, local: false };
+			}
+		}
+
+		const jsonPath = `${this.options.path}/versions/${id}/${id}.json`;
+		if (!fs.existsSync(jsonPath)) return null;
+
+		// JSONs saved by a previous launch were written after ARM processing, so they are used as-is
+		const versionJson: MinecraftVersionJSON = JSON.parse(fs.readFileSync(jsonPath, 'utf-8'));
+
+		const InfoVersion: VersionEntry = {
+			id: versionJson.id ?? id,
+			type: versionJson.type,
+			url: '',
+			time: versionJson.time ?? '',
+			releaseTime: versionJson.releaseTime ?? ''
+		};
+
+		return { InfoVersion, json: { ...versionJson, id: InfoVersion.id }, local: true };
+	}
+}
+
+/**
+ * Merges a version JSON into the one it inherits from, as the vanilla
+ * launcher does: the child's fields win, its libraries come first and
+ * replace the parent's ones of the same artifact, and the game/JVM
+ * arguments of both are kept, the parent's first.
+ */
+function mergeVersionJson(parent: MinecraftVersionJSON, child: MinecraftVersionJSON): MinecraftVersionJSON {
+	const childLibraries = child.libraries ?? [];
+	const overridden = new Set(childLibraries.map(lib => getLibraryKey(lib.name)));
+
+	const merged: MinecraftVersionJSON = {
+		...parent,
+		...child,
+		libraries: [...childLibraries, ...parent.libraries.filter(lib => !overridden.has(getLibraryKey(lib.name)))],
+		downloads: { ...parent.downloads, ...child.downloads }
+	};
+
+	if (parent.arguments || child.arguments) {
+		merged.arguments = {
+			...parent.arguments,
+			...child.arguments,
+			game: [...(parent.arguments?.game ?? []), ...(child.arguments?.game ?? [])],
+			jvm: [...(parent.arguments?.jvm ?? []), ...(child.arguments?.jvm ?? [])]
+		};
+	}
+	return merged;
+}
+
+/** "group:artifact[:classifier]" of a library name, without its version */
+function getLibraryKey(name: string): string {
+	const [group, artifact, , ...classifier] = name.split(':');
+	return [group, artifact, ...classifier].join(':');
 }
@@ -5,7 +5,8 @@
 
 import os from 'os';
 import fs from 'fs';
-import { getFileFromArchive } from '../utils/Index.js';
+import { getFileFromArchive, getGameDirectory, getPathLibraries } from '../utils/Index.js';
+import { evaluateRules } from '../utils/Rules.js';
 import type {
 	MinecraftVersionJSON,
 	MinecraftLibrary,
@@ -46,15 +47,26 @@ export default class Libraries {
 		this.options = options;
 	}
 
-	public async Getlibraries(json: MinecraftVersionJSON): Promise<DownloadFile[]> {
+	/**
+	 * Lists the libraries, client JAR and version JSON(s) to install.
+	 * Libraries with only a Maven `url` (no `downloads`, as in hand-written
+	 * or loader JSONs) are fetched from that repository.
+	 *
+	 * @param json      The version JSON, merged with the versions it inherits from
+	 * @param inherited JSONs of inherited versions to save alongside it
+	 */
+	public async Getlibraries(json: MinecraftVersionJSON, inherited: MinecraftVersionJSON[] = []): Promise<DownloadFile[]> {
 		this.json = json;
 		const libraries: DownloadFile[] = [];
 
 		for (const lib of this.json.libraries) {
-			let artifact: { sha1: string; size: number; path: string; url: string } | undefined;
+			let artifact: { sha1?: string; size?: number; path: string; url: string } | undefined;
 			let type = 'Libraries';
 
-		if (lib.natives) {
+			// Libraries (and natives) meant for another OS, OS version or architecture
+			if (!evaluateRules(lib.rules)) continue;
+
+			if (lib.natives) {
 				const classifiers = lib.downloads?.classifiers;
 				let native = lib.natives[MojangLib[os.platform()]] || lib.natives[os.platform()];
 				type = 'Native';
@@ -67,12 +79,12 @@ export default class Libraries {
 					continue;
 				}
 			} else {
-				if (lib.rules && lib.rules[0]?.os?.name) {
-					if (lib.rules[0].os.name !== MojangLib[os.platform()]) {
-						continue;
-					}
-				}
 				artifact = lib.downloads?.artifact;
+				if (!artifact && typeof lib.url === 'string') {
+					const libPath = getPathLibraries(lib.name);
+					const mavenPath = `${libPath.path}/${libPath.name}`;
+					artifact = { sha1: lib.sha1 as string | undefined, path: mavenPath, url: `${lib.url.replace(/\/$/, '')}/${mavenPath}` };
+				}
 			}
 
 			if (!artifact) continue;
@@ -86,21 +98,28 @@ export default class Libraries {
 			});
 		}
 
-		// Add the main Minecraft client JAR to the list
-		libraries.push({
-			sha1: this.json.downloads.client.sha1,
-			size: this.json.downloads.client.size,
-			path: `versions/${this.json.id}/${this.json.id}.jar`,
-			type: 'Libraries',
-			url: this.json.downloads.client.url
-		});
-
-		// Add the JSON file for this version as a "CFILE"
-		libraries.push({
-			path: `versions/${this.json.id}/${this.json.id}.json`,
-			type: 'CFILE',
-			content: JSON.stringify(this.json)
-		});
+		// Add the main Minecraft client JAR to the list (a custom version may reuse the one it inherits)
+		const jar = this.json.jar ?? this.json.id;
+		if (this.json.downloads?.client) {
+			libraries.push({
+				sha1: this.json.downloads.client.sha1,
+				size: this.json.downloads.client.size,
+				path: `versions/${jar}/${jar}.jar`,
+				type: 'Libraries',
+				url: this.json.downloads.client.url
+			});
+		}
+
+		// Add the JSON file for this version as a "CFILE". A custom version keeps
+		// its own JSON: only the versions it inherits from Mojang are saved.
+		const jsons = this.json.inheritsFrom ? inherited : [this.json, ...inherited];
+		for (const versionJson of jsons) {
+			libraries.push({
+				path: `versions/${versionJson.id}/${versionJson.id}.json`,
+				type: 'CFILE',
+				content: JSON.stringify(versionJson)
+			});
+		}
 
 		return libraries;
 	}
@@ -126,12 +145,13 @@ export default class Libraries {
 	 * Fetches custom assets or libraries from a remote URL if provided.
 	 * This method expects the response to be an array of objects with
 	 * "path", "hash", "size", and "url".
+	 * Skipped in offline mode: custom files are used as they are on disk.
 	 *
 	 * @param url The remote URL that returns a JSON array of CustomAssetItem
 	 * @returns   An array of LibraryDownload entries describing each item
 	 */
 	public async GetAssetsOthers(url: string | null): Promise<DownloadFile[]> {
-		if (!url) return [];
+		if (!url || this.options.offline) return [];
 
 		const response = await fetch(url);
 		const data: CustomAssetItem[] = await response.json();
@@ -146,8 +166,8 @@ export default class Libraries {
 				sha1: asset.hash,
 				size: asset.size,
 				type: fileType,
-				path: this.options.instance
-					? `instances/${this.options.instance}/${asset.path}`
+				path: this.options.gameDir || this.options.instance
+					? `${getGameDirectory(this.options)}/${asset.path}`
 					: asset.path,
 				url: asset.url
 			});
@@ -5,6 +5,7 @@
 
 import { EventEmitter } from 'events';
 import path from 'path';
+import fs from 'fs';
 import LoaderDownloader from '../Minecraft-Loader/index.js';
 import type {
 	LaunchOptions,
@@ -38,9 +39,13 @@ export default class MinecraftLoader extends EventEmitter {
 	 * @returns        A Promise that resolves to the loader's JSON configuration
 	 */
 	public async GetLoader(version: string, javaPath: string): Promise<LoaderJSON> {
+		if (this.options.offline) return this.GetLocalLoader(version);
+
 		const loader = new LoaderDownloader({
 			path: this.loaderPath,
 			downloadFileMultiple: this.options.downloadFileMultiple,
+			cache: this.options.cache,
+			downloader: this.options.downloader,
 			loader: {
 				type: this.options.loader.type! as LoaderType,
 				version: version,
@@ -57,14 +62,7 @@ export default class MinecraftLoader extends EventEmitter {
 			loader.install();
 
 			loader.on('json', (json: LoaderJSON) => {
-				const modifiedJson = json;
-				if (modifiedJson.libraries) {
-					modifiedJson.libraries = modifiedJson.libraries.map(lib => {
-						lib.loader = this.loaderPath;
-						return lib;
-					});
-				}
-				resolve(modifiedJson);
+				resolve(this.withLoaderPath(json));
 			});
 
 			loader.on('extract', (extract: string) => {
@@ -89,6 +87,66 @@ export default class MinecraftLoader extends EventEmitter {
 		});
 	}
 
+	/**
+	 * Offline counterpart of GetLoader(): picks the loader JSON a previous install
+	 * wrote under <loader>/versions/<id>/<id>.json for this Minecraft version.
+	 * When the build is "latest" or "recommended", the most recently installed one wins.
+	 *
+	 * @param version The Minecraft version (e.g. "1.19.2")
+	 */
+	public async GetLocalLoader(version: string): Promise<LoaderJSON> {
+		const type = (this.options.loader.type ?? '').toLowerCase();
+		const build = (this.options.loader.build ?? 'latest').toLowerCase();
+		const versionsFolder = path.join(this.loaderPath, 'versions');
+
+		// Keywords found in the version id written by each installer
+		const keyword = type === 'legacyfabric' ? 'fabric' : type;
+
+		const candidates: Array<{ json: LoaderJSON; mtime: number }> = [];
+		if (fs.existsSync(versionsFolder)) {
+			for (const id of fs.readdirSync(versionsFolder)) {
+				const jsonPath = path.join(versionsFolder, id, `${id}.json`);
+				if (!fs.existsSync(jsonPath)) continue;
+
+				const lowerId = id.toLowerCase();
+				if (!lowerId.includes(keyword)) continue;
+				if (type === 'forge' && lowerId.includes('neoforge')) continue;
+				if (build !== 'latest' && build !== 'recommended' && !lowerId.includes(build)) continue;
+
+				let json: LoaderJSON;
+				try {
+					json = JSON.parse(fs.readFileSync(jsonPath, 'utf-8'));
+				} catch {
+					continue;
+				}
+				if (json.inheritsFrom ? json.inheritsFrom !== version : !id.includes(version)) continue;
+
+				candidates.push({ json, mtime: fs.statSync(jsonPath).mtimeMs });
+			}
+		}
+
+		if (candidates.length === 0) {
+			throw new Error(`${type} ${build} for Minecraft ${version} is not installed, cannot launch offline.`);
+		}
+
+		candidates.sort((a, b) => b.mtime - a.mtime);
+		return this.withLoaderPath(candidates[0].json);
+	}
+
+	/**
+	 * Tags every loader library with the loader folder so the classpath
+	 * builder looks for it under <loader>/libraries.
+	 */
+	private withLoaderPath(json: LoaderJSON): LoaderJSON {
+		if (json.libraries) {
+			json.libraries = json.libraries.map(lib => {
+				lib.loader = this.loaderPath;
+				return lib;
+			});
+		}
+		return json;
+	}
+
 	public async GetArguments(json: LoaderJSON | null, version: string): Promise<LoaderArguments> {
 		// If no loader JSON is provided, return empty arrays
 		if (json === null) {
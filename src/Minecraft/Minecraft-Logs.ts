@@ -0,0 +1,243 @@
+/**
+ * @author Luuxis
+ * Luuxis License v1.0 (voir fichier LICENSE pour les détails en FR/EN)
+ */
+
+import { EventEmitter } from 'events';
+import type { MinecraftLogRecord, MinecraftLogLevel } from '../types.js';
+
+export type { MinecraftLogRecord, MinecraftLogLevel };
+
+/** Delay (ms) after the last chunk before a pending record is flushed */
+const IDLE_FLUSH_MS = 100;
+
+const EVENT_START = '<log4j:Event';
+const EVENT_END = '</log4j:Event>';
+
+const LEVELS: MinecraftLogLevel[] = ['TRACE', 'DEBUG', 'INFO', 'WARN', 'ERROR', 'FATAL'];
+
+/**
+ * Plain text layouts, e.g.
+ *  - vanilla:  "[12:34:56] [Render thread/INFO]: Message"
+ *  - Forge:    "[16Oct2024 12:34:56.789] [main/INFO] [net.minecraftforge.Foo/]: Message"
+ */
+const TEXT_LINE = /^\[([^\]]+)\] \[(.*)\/(TRACE|DEBUG|INFO|WARN|ERROR|FATAL)\](?: \[([^\]]*?)\/?\])?: ?(.*)$/;
+
+/** Lines that belong to a stack trace rather than starting a new record */
+const STACK_LINE = /^(\s+at |\s*\.\.\. \d+ more|\s*Caused by: |\s*Suppressed: )/;
+const THROWABLE_HEADER = /^(?:Exception in thread "[^"]*" )?[\w$]+(?:\.[\w$]+)+(?:Exception|Error|Throwable)(?::.*)?$/;
+
+const MONTHS: Record<string, number> = {
+	Jan: 0, Feb: 1, Mar: 2, Apr: 3, May: 4, Jun: 5,
+	Jul: 6, Aug: 7, Sep: 8, Oct: 9, Nov: 10, Dec: 11
+};
+
+/**
+ * Reassembles game output into whole lines and parses them into typed log records.
+ * Handles both the log4j XML layout used by Mojang's `logging.client` config
+ * and the plain text layouts printed when that config is ignored.
+ *
+ * Emits:
+ *  - "log" for each parsed MinecraftLogRecord
+ */
+export default class MinecraftLogParser extends EventEmitter {
+	private readonly stream: 'stdout' | 'stderr';
+	private buffer = '';
+	private pending: MinecraftLogRecord | null = null;
+	private idleTimer: NodeJS.Timeout | null = null;
+
+	constructor(stream: 'stdout' | 'stderr' = 'stdout') {
+		super();
+		this.stream = stream;
+	}
+
+	/**
+	 * Feeds a chunk of raw output. Chunks may be split anywhere,
+	 * including in the middle of a line or an XML event.
+	 */
+	public push(chunk: string | Buffer): void {
+		this.buffer += chunk.toString();
+		this.drain();
+
+		if (this.idleTimer) clearTimeout(this.idleTimer);
+		this.idleTimer = setTimeout(() => this.flushPending(), IDLE_FLUSH_MS);
+		this.idleTimer.unref?.();
+	}
+
+	/**
+	 * Emits everything still buffered, treating the remaining text as complete.
+	 * Call this once the stream has ended.
+	 */
+	public flush(): void {
+		if (this.idleTimer) clearTimeout(this.idleTimer);
+		this.idleTimer = null;
+
+		if (this.buffer.length > 0) {
+			this.buffer += '\n';
+			this.drain(true);
+			this.buffer = '';
+		}
+		this.flushPending();
+	}
+
+	private drain(final: boolean = false): void {
+		while (this.buffer.length > 0) {
+			const eventStart = this.buffer.indexOf(EVENT_START);
+			const newline = this.buffer.indexOf('\n');
+
+			// An XML event starts before the end of the current line
+			if (eventStart !== -1 && (newline === -1 || eventStart < newline)) {
+				const before = this.buffer.slice(0, eventStart);
+				if (before.trim()) this.handleLine(before);
+
+				const eventEnd = this.buffer.indexOf(EVENT_END, eventStart);
+				if (eventEnd === -1) {
+					this.buffer = this.buffer.slice(eventStart);
+					if (final) {
+						this.handleLine(this.buffer);
+						this.buffer = '';
+					}
+					return;
+				}
+
+				const xml = this.buffer.slice(eventStart, eventEnd + EVENT_END.length);
+				this.buffer = this.buffer.slice(eventEnd + EVENT_END.length);
+				this.handleEvent(xml);
+				continue;
+			}
+
+			if (newline === -1) return;
+
+			const line = this.buffer.slice(0, newline).replace(/\r$/, '');
+			this.buffer = this.buffer.slice(newline + 1);
+			if (line.trim()) this.handleLine(line);
+		}
+	}
+
+	private handleEvent(xml: string): void {
+		this.flushPending();
+
+		const openTag = xml.slice(0, xml.indexOf('>') + 1);
+		const attributes: Record<string, string> = {};
+		for (const [, key, value] of openTag.matchAll(/(\w+)="([^"]*)"/g)) {
+			attributes[key] = decodeEntities(value);
+		}
+
+		const timestamp = Number(attributes.timestamp);
+		const throwable = readElement(xml, 'log4j:Throwable');
+
+		const record: MinecraftLogRecord = {
+			timestamp: Number.isFinite(timestamp) ? timestamp : null,
+			thread: attributes.thread ?? null,
+			level: toLevel(attributes.level),
+			logger: attributes.logger ?? null,
+			message: readElement(xml, 'log4j:Message') ?? '',
+			throwable: throwable ? throwable.replace(/\r?\n$/, '') : null,
+			stream: this.stream,
+			format: 'xml',
+			raw: xml
+		};
+		this.emit('log', record);
+	}
+
+	private handleLine(line: string): void {
+		const match = line.match(TEXT_LINE);
+		if (match) {
+			this.flushPending();
+			const [, time, thread, level, logger, message] = match;
+			this.pending = {
+				timestamp: parseTime(time),
+				thread,
+				level: toLevel(level),
+				logger: logger || null,
+				message,
+				throwable: null,
+				stream: this.stream,
+				format: 'text',
+				raw: line
+			};
+			return;
+		}
+
+		// Stack traces continue the record they were logged with
+		if (this.pending && (STACK_LINE.test(line) || THROWABLE_HEADER.test(line.trim()))) {
+			this.pending.throwable = this.pending.throwable ? `${this.pending.throwable}\n${line}` : line;
+			this.pending.raw += `\n${line}`;
+			return;
+		}
+
+		this.flushPending();
+		this.pending = {
+			timestamp: null,
+			thread: null,
+			level: this.stream === 'stderr' ? 'ERROR' : 'UNKNOWN',
+			logger: null,
+			message: line,
+			throwable: null,
+			stream: this.stream,
+			format: 'text',
+			raw: line
+		};
+	}
+
+	private flushPending(): void {
+		if (!this.pending) return;
+		const record = this.pending;
+		this.pending = null;
+		this.emit('log', record);
+	}
+}
+
+function toLevel(level?: string): MinecraftLogLevel {
+	const upper = (level ?? '').toUpperCase() as MinecraftLogLevel;
+	return LEVELS.includes(upper) ? upper : 'UNKNOWN';
+}
+
+/**
+ * Reads the text content of an XML element, joining CDATA sections
+ * (log4j splits messages containing "]]>" across several of them).
+ */
+function readElement(xml: string, tag: string): string | null {
+	const match = xml.match(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`));
+	if (!match) return null;
+
+	const content = match[1];
+	if (!content.includes('<![CDATA[')) return decodeEntities(content);
+
+	let result = '';
+	for (const [, data] of content.matchAll(/<!\[CDATA\[([\s\S]*?)\]\]>/g)) result += data;
+	return result;
+}
+
+function decodeEntities(value: string): string {
+	return value
+		.replace(/&lt;/g, '<')
+		.replace(/&gt;/g, '>')
+		.replace(/&quot;/g, '"')
+		.replace(/&apos;/g, "'")
+		.replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+		.replace(/&amp;/g, '&');
+}
+
+/**
+ * Converts the timestamp of a plain text line to epoch milliseconds.
+ * Lines that only carry a time of day are assumed to be from today.
+ */
+function parseTime(time: string): number | null {
+	const full = time.match(/^(\d{1,2})([A-Za-z]{3})(\d{4}) (\d{2}):(\d{2}):(\d{2})(?:\.(\d{3}))?$/);
+	if (full) {
+		const [, day, month, year, h, m, s, ms] = full;
+		if (MONTHS[month] === undefined) return null;
+		return new Date(Number(year), MONTHS[month], Number(day), Number(h), Number(m), Number(s), Number(ms ?? 0)).getTime();
+	}
+
+	const short = time.match(/^(\d{2}):(\d{2}):(\d{2})(?:\.(\d{3}))?$/);
+	if (short) {
+		const [, h, m, s, ms] = short;
+		const date = new Date();
+		date.setHours(Number(h), Number(m), Number(s), Number(ms ?? 0));
+		return date.getTime();
+	}
+
+	return null;
+}
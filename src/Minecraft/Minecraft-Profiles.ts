@@ -0,0 +1,124 @@
+/**
+ * @author Luuxis
+ * Luuxis License v1.0 (voir fichier LICENSE pour les détails en FR/EN)
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { ImportedProfile, ProfileLaunchOptions, VanillaLauncherProfile } from '../types.js';
+
+export type { ImportedProfile, ProfileLaunchOptions, VanillaLauncherProfile };
+
+/** Versions of the vanilla launcher's "latest" profiles */
+const LATEST_VERSIONS: Record<string, string> = {
+	'latest-release': 'latest_release',
+	'latest-snapshot': 'latest_snapshot'
+};
+
+/** Names the vanilla launcher shows for its unnamed "latest" profiles */
+const LATEST_NAMES: Record<string, string> = {
+	'latest-release': 'Latest release',
+	'latest-snapshot': 'Latest snapshot'
+};
+
+/**
+ * Imports the profiles of an official launcher directory (`.minecraft`) as
+ * launch options. `path` is the launcher directory itself, so the versions,
+ * libraries and assets already there are checked by checkBundle and only
+ * missing or damaged files are downloaded.
+ *
+ * @example
+ * const [profile] = new LauncherProfiles(`${process.env.APPDATA}/.minecraft`).list();
+ * launcher.Launch({ ...profile.options, authenticator });
+ */
+export default class LauncherProfiles {
+	private readonly basePath: string;
+
+	/**
+	 * @param basePath The vanilla launcher directory (containing launcher_profiles.json)
+	 */
+	constructor(basePath: string) {
+		this.basePath = path.resolve(basePath).replace(/\\/g, '/');
+	}
+
+	/**
+	 * Lists the profiles, most recently used first. Profiles that name no
+	 * version (a custom profile without `lastVersionId`) cannot be launched
+	 * and are left out.
+	 *
+	 * @throws If launcher_profiles.json is missing or unreadable
+	 */
+	public list(): ImportedProfile[] {
+		const file = `${this.basePath}/launcher_profiles.json`;
+		const { profiles = {} }: { profiles?: Record<string, VanillaLauncherProfile> } = JSON.parse(fs.readFileSync(file, 'utf-8'));
+
+		return Object.entries(profiles)
+			.map(([id, profile]) => this.import(id, profile))
+			.filter((profile): profile is ImportedProfile => profile !== null)
+			.sort((a, b) => (b.lastUsed ?? 0) - (a.lastUsed ?? 0));
+	}
+
+	/**
+	 * Finds a profile by its id or name.
+	 *
+	 * @returns null if there is no such profile
+	 */
+	public get(idOrName: string): ImportedProfile | null {
+		return this.list().find(profile => profile.id === idOrName || profile.name === idOrName) ?? null;
+	}
+
+	private import(id: string, profile: VanillaLauncherProfile): ImportedProfile | null {
+		const type = profile.type ?? 'custom';
+		// The "latest" profiles may leave lastVersionId out; any other profile must name its version
+		const version = profile.lastVersionId ?? (type in LATEST_VERSIONS ? type : null);
+		if (!version) return null;
+
+		const options: ProfileLaunchOptions = {
+			path: this.basePath,
+			version: LATEST_VERSIONS[version] ?? version,
+			gameDir: null,
+			JVM_ARGS: []
+		};
+
+		if (profile.gameDir) {
+			const gameDir = path.resolve(this.basePath, profile.gameDir).replace(/\\/g, '/');
+			if (gameDir !== this.basePath) options.gameDir = gameDir;
+		}
+
+		for (const arg of splitArguments(profile.javaArgs ?? '')) {
+			if (arg.startsWith('-Xmx')) options.memory = { ...options.memory, max: arg.slice(4) };
+			else if (arg.startsWith('-Xms')) options.memory = { ...options.memory, min: arg.slice(4) };
+			else options.JVM_ARGS.push(arg);
+		}
+
+		if (profile.resolution?.width && profile.resolution.height) {
+			options.screen = { width: profile.resolution.width, height: profile.resolution.height };
+		}
+		if (profile.javaDir) options.java = { path: profile.javaDir };
+
+		return {
+			id,
+			name: profile.name || LATEST_NAMES[type] || id,
+			type,
+			icon: profile.icon ?? null,
+			created: parseDate(profile.created),
+			lastUsed: parseDate(profile.lastUsed),
+			options
+		};
+	}
+}
+
+/** Splits a command line on spaces, keeping quoted parts together. */
+function splitArguments(line: string): string[] {
+	const args: string[] = [];
+	for (const match of line.matchAll(/(?:[^\s"']+|"[^"]*"|'[^']*')+/g)) {
+		args.push(match[0].replace(/(["'])(.*?)\1/g, '$2'));
+	}
+	return args;
+}
+
+function parseDate(date?: string): number | null {
+	const time = date ? Date.parse(date) : NaN;
+	// The vanilla launcher writes 1970-01-01 for profiles it never launched
+	return Number.isNaN(time) || time <= 0 ? null : time;
+}
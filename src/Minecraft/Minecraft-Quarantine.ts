@@ -0,0 +1,158 @@
+/**
+ * @author Luuxis
+ * Luuxis License v1.0 (voir fichier LICENSE pour les détails en FR/EN)
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { QuarantineEntry, QuarantinePruneOptions } from '../types.js';
+
+export type { QuarantineEntry, QuarantinePruneOptions };
+
+/**
+ * Holds the files removed by the verify cleanup so they can be restored.
+ * Each cleanup creates `<path>/quarantine/<id>/` containing the removed files
+ * (at their path relative to the game directory they came from, which may
+ * be an instance or a `gameDir` outside `<path>`) and a `manifest.json`.
+ * Entries are kept until restored, purged or pruned; nothing expires on its own.
+ */
+export default class MinecraftQuarantine {
+	private readonly basePath: string;
+	private readonly folder: string;
+
+	/**
+	 * @param basePath Root directory (LaunchOptions.path)
+	 */
+	constructor(basePath: string) {
+		this.basePath = path.resolve(basePath).replace(/\\/g, '/');
+		this.folder = `${this.basePath}/quarantine`;
+	}
+
+	/**
+	 * Moves files into a new quarantine entry.
+	 *
+	 * @param files Absolute paths inside the game directory
+	 * @param root  Game directory the files belong to; defaults to the root directory
+	 * @returns The entry, listing the files actually moved
+	 */
+	public store(files: string[], root: string = this.basePath): QuarantineEntry {
+		const createdAt = Date.now();
+		const id = new Date(createdAt).toISOString().replace(/[:.]/g, '-');
+		const entry: QuarantineEntry = { id, createdAt, root: path.resolve(root).replace(/\\/g, '/'), files: [] };
+
+		for (const file of files) {
+			const relative = path.relative(entry.root!, file).replace(/\\/g, '/');
+			if (!relative || relative.startsWith('..')) continue;
+
+			try {
+				moveFile(file, `${this.folder}/${id}/files/${relative}`);
+				entry.files.push(relative);
+			} catch {
+				// Locked or vanished: leave it where it is
+				continue;
+			}
+		}
+
+		if (entry.files.length > 0) {
+			fs.writeFileSync(`${this.folder}/${id}/manifest.json`, JSON.stringify(entry, null, 4));
+		}
+		return entry;
+	}
+
+	/** Lists quarantine entries, newest first. */
+	public list(): QuarantineEntry[] {
+		if (!fs.existsSync(this.folder)) return [];
+
+		const entries: QuarantineEntry[] = [];
+		for (const id of fs.readdirSync(this.folder)) {
+			try {
+				entries.push(JSON.parse(fs.readFileSync(`${this.folder}/${id}/manifest.json`, 'utf-8')));
+			} catch {
+				continue;
+			}
+		}
+		return entries.sort((a, b) => b.createdAt - a.createdAt);
+	}
+
+	/**
+	 * Moves files of an entry back to their original location. A file that
+	 * exists again at that location is left in quarantine.
+	 *
+	 * @param id    Entry id from list()
+	 * @param files Relative paths to restore; the whole entry when omitted
+	 * @returns The relative paths restored
+	 */
+	public restore(id: string, files?: string[]): string[] {
+		const entry = this.list().find(e => e.id === id);
+		if (!entry) return [];
+
+		const restored: string[] = [];
+		for (const relative of files ?? entry.files) {
+			if (!entry.files.includes(relative)) continue;
+
+			const target = `${entry.root ?? this.basePath}/${relative}`;
+			if (fs.existsSync(target)) continue;
+			try {
+				moveFile(`${this.folder}/${id}/files/${relative}`, target);
+				restored.push(relative);
+			} catch {
+				continue;
+			}
+		}
+
+		entry.files = entry.files.filter(file => !restored.includes(file));
+		if (entry.files.length === 0) this.purge(id);
+		else fs.writeFileSync(`${this.folder}/${id}/manifest.json`, JSON.stringify(entry, null, 4));
+
+		return restored;
+	}
+
+	/**
+	 * Permanently deletes quarantined files.
+	 *
+	 * @param id Entry to delete; every entry when omitted
+	 * @throws If `id` is not a plain entry name (path separators or `..`)
+	 */
+	public purge(id?: string): void {
+		if (id !== undefined && !isEntryId(id)) throw new Error(`Invalid quarantine entry id: ${id}`);
+
+		const target = id ? `${this.folder}/${id}` : this.folder;
+		fs.rmSync(target, { recursive: true, force: true });
+	}
+
+	/**
+	 * Deletes the entries older than `maxAge` and those beyond the
+	 * `maxEntries` newest ones.
+	 *
+	 * @returns The ids of the entries deleted
+	 */
+	public prune(options: QuarantinePruneOptions): string[] {
+		const { maxAge, maxEntries } = options;
+		const now = Date.now();
+
+		const pruned = this.list()
+			.filter((entry, i) => (maxAge !== undefined && now - entry.createdAt > maxAge)
+				|| (maxEntries !== undefined && i >= maxEntries))
+			.map(entry => entry.id);
+
+		for (const id of pruned) this.purge(id);
+		return pruned;
+	}
+}
+
+/** An entry id is a single folder name inside the quarantine. */
+function isEntryId(id: string): boolean {
+	return id.length > 0 && id !== '.' && id !== '..' && !/[\\/]/.test(id);
+}
+
+/** Renames a file, copying it when the destination is on another volume. */
+function moveFile(source: string, destination: string): void {
+	fs.mkdirSync(path.dirname(destination), { recursive: true });
+	try {
+		fs.renameSync(source, destination);
+	} catch (err: any) {
+		if (err?.code !== 'EXDEV') throw err;
+		fs.copyFileSync(source, destination);
+		fs.unlinkSync(source);
+	}
+}
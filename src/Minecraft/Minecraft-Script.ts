@@ -0,0 +1,74 @@
+/**
+ * @author Luuxis
+ * Luuxis License v1.0 (voir fichier LICENSE pour les détails en FR/EN)
+ */
+
+import type { LaunchPlan, LaunchScriptFormat } from '../types.js';
+
+export type { LaunchPlan, LaunchScriptFormat };
+
+/**
+ * Turns a launch plan into a copyable command line or a standalone
+ * shell (.sh) / batch (.bat) script, mainly for debugging launches.
+ */
+export default class MinecraftScript {
+	private readonly plan: LaunchPlan;
+	private readonly hiddenValues: string[];
+
+	/**
+	 * @param plan         The plan returned by Launch.prepare()
+	 * @param hiddenValues Secrets (tokens, uuid) replaced by a placeholder in the output
+	 */
+	constructor(plan: LaunchPlan, hiddenValues: string[] = []) {
+		this.plan = plan;
+		this.hiddenValues = hiddenValues;
+	}
+
+	/**
+	 * Returns the launch as a single command line, quoted for the given format.
+	 */
+	public toCommand(format: LaunchScriptFormat = process.platform === 'win32' ? 'bat' : 'sh'): string {
+		const quote = format === 'bat' ? quoteBatch : quoteShell;
+		return [this.plan.java, ...this.plan.arguments].map(arg => quote(this.hide(arg))).join(' ');
+	}
+
+	/**
+	 * Returns a complete script that changes to the game directory and starts the game.
+	 */
+	public toScript(format: LaunchScriptFormat = process.platform === 'win32' ? 'bat' : 'sh'): string {
+		if (format === 'bat') {
+			return [
+				'@echo off',
+				`rem Minecraft ${this.plan.version}${this.plan.loader ? ` (${this.plan.loader})` : ''}`,
+				`cd /d ${quoteBatch(this.plan.cwd)}`,
+				this.toCommand('bat'),
+				''
+			].join('\r\n');
+		}
+
+		return [
+			'#!/bin/sh',
+			`# Minecraft ${this.plan.version}${this.plan.loader ? ` (${this.plan.loader})` : ''}`,
+			`cd ${quoteShell(this.plan.cwd)} || exit 1`,
+			`exec ${this.toCommand('sh')}`,
+			''
+		].join('\n');
+	}
+
+	private hide(value: string): string {
+		for (const hidden of this.hiddenValues) value = value.replaceAll(hidden, '????????');
+		return value;
+	}
+}
+
+function quoteShell(value: string): string {
+	if (/^[\w@%+=:,./-]+$/.test(value)) return value;
+	return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+function quoteBatch(value: string): string {
+	// %VAR% expansion happens even inside quotes in batch files
+	const escaped = value.replace(/%/g, '%%');
+	if (/^[\w@+=:,./\\-]+$/.test(escaped)) return escaped;
+	return `"${escaped.replace(/"/g, '""')}"`;
+}
@@ -0,0 +1,135 @@
+/**
+ * @author Luuxis
+ * Luuxis License v1.0 (voir fichier LICENSE pour les détails en FR/EN)
+ */
+
+import { EventEmitter } from 'events';
+import { randomUUID } from 'crypto';
+import type { ChildProcess } from 'child_process';
+import type { GameSessionExit, GameSessionInfo } from '../types.js';
+
+export type { GameSessionExit, GameSessionInfo };
+
+/**
+ * Wraps a spawned Minecraft process so the launcher can signal it,
+ * wait for it to exit and inspect how long it has been running.
+ *
+ * Emits:
+ *  - "exit" once the process has terminated, with a GameSessionExit payload
+ */
+export default class MinecraftSession extends EventEmitter {
+	public readonly id: string = randomUUID();
+	public readonly instance: string | null;
+	public readonly version: string;
+	public readonly process: ChildProcess;
+	public readonly startedAt: number = Date.now();
+	public stoppedAt: number | null = null;
+	public exitCode: number | null = null;
+	public signal: NodeJS.Signals | null = null;
+	/** True once the launcher asked the game to stop through kill(). */
+	public stopRequested: boolean = false;
+
+	private readonly detached: boolean;
+	private readonly exitPromise: Promise<GameSessionExit>;
+
+	constructor(child: ChildProcess, instance: string | null, version: string, detached: boolean = false) {
+		super();
+		this.process = child;
+		this.instance = instance;
+		this.version = version;
+		this.detached = detached;
+
+		this.exitPromise = new Promise<GameSessionExit>((resolve) => {
+			child.once('exit', (code, signal) => {
+				this.stoppedAt = Date.now();
+				this.exitCode = code;
+				this.signal = signal;
+
+				const result: GameSessionExit = { code, signal, uptime: this.uptime };
+				this.emit('exit', result);
+				resolve(result);
+			});
+
+			// A spawn failure (e.g. ENOENT on the java binary) never fires "exit"
+			child.once('error', () => {
+				if (this.stoppedAt !== null) return;
+				this.stoppedAt = Date.now();
+
+				const result: GameSessionExit = { code: null, signal: null, uptime: this.uptime };
+				this.emit('exit', result);
+				resolve(result);
+			});
+		});
+	}
+
+	/** Process id of the game, undefined if the spawn failed. */
+	public get pid(): number | undefined {
+		return this.process.pid;
+	}
+
+	/** True while the game process has not exited yet. */
+	public get running(): boolean {
+		return this.stoppedAt === null;
+	}
+
+	/** Milliseconds the game has been (or was) running. */
+	public get uptime(): number {
+		return (this.stoppedAt ?? Date.now()) - this.startedAt;
+	}
+
+	/**
+	 * Sends a signal to the game process. On a detached launch the whole
+	 * process group is signalled so child JVM helpers go down with it.
+	 *
+	 * @param signal The signal to send (default: SIGTERM)
+	 * @returns true if the signal was delivered, false otherwise
+	 */
+	public kill(signal: NodeJS.Signals = 'SIGTERM'): boolean {
+		if (!this.running || this.pid === undefined) return false;
+		this.stopRequested = true;
+
+		if (this.detached && process.platform !== 'win32') {
+			try {
+				process.kill(-this.pid, signal);
+				return true;
+			} catch {
+				// Group already gone or not a leader, fall through
+			}
+		}
+		return this.process.kill(signal);
+	}
+
+	/**
+	 * Resolves once the game process has exited.
+	 *
+	 * @param timeout Optional time in ms after which the process is killed (SIGKILL)
+	 */
+	public async waitForExit(timeout?: number): Promise<GameSessionExit> {
+		if (!timeout) return this.exitPromise;
+
+		const tid = setTimeout(() => this.kill('SIGKILL'), timeout);
+		try {
+			return await this.exitPromise;
+		} finally {
+			clearTimeout(tid);
+		}
+	}
+
+	/**
+	 * Returns a serialisable snapshot of this session.
+	 */
+	public toJSON(): GameSessionInfo {
+		return {
+			id: this.id,
+			pid: this.pid,
+			instance: this.instance,
+			version: this.version,
+			startedAt: this.startedAt,
+			stoppedAt: this.stoppedAt,
+			exitCode: this.exitCode,
+			signal: this.signal,
+			uptime: this.uptime,
+			running: this.running
+		};
+	}
+}
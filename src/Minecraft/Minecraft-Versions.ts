@@ -0,0 +1,140 @@
+/**
+ * @author Luuxis
+ * Luuxis License v1.0 (voir fichier LICENSE pour les détails en FR/EN)
+ */
+
+import MetadataCache from '../utils/MetadataCache.js';
+import type {
+	CatalogVersion,
+	MetadataCacheOptions,
+	MinecraftVersionJSON,
+	MinecraftVersionType,
+	MojangVersionManifest,
+	VersionCatalogFilter
+} from '../types.js';
+
+export type { CatalogVersion, MinecraftVersionType, VersionCatalogFilter };
+
+const MANIFEST_URL = 'https://launchermeta.mojang.com/mc/game/version_manifest_v2.json';
+
+/** Version JSONs fetched in parallel when resolving Java versions */
+const JAVA_CONCURRENCY = 8;
+
+/**
+ * Lists the versions of Mojang's `version_manifest_v2.json`, newest first,
+ * for version pickers. The manifest goes through the metadata cache, so
+ * listing repeatedly does not hit the network.
+ */
+export default class VersionCatalog {
+	private readonly cache: MetadataCache;
+
+	/**
+	 * @param cache Metadata cache options (LaunchOptions.cache)
+	 */
+	constructor(cache: MetadataCacheOptions = {}) {
+		this.cache = new MetadataCache(cache);
+	}
+
+	/** The raw manifest. */
+	public async getManifest(): Promise<MojangVersionManifest> {
+		return this.cache.json<MojangVersionManifest>(MANIFEST_URL, 'manifest');
+	}
+
+	/** Ids of the latest release and snapshot. */
+	public async latest(): Promise<{ release: string; snapshot: string }> {
+		return (await this.getManifest()).latest;
+	}
+
+	/**
+	 * Lists versions, newest first.
+	 *
+	 * @example
+	 * catalog.list({ type: 'release', since: '1.12' });
+	 * catalog.list({ snapshotsOf: '1.21' });
+	 */
+	public async list(filter: VersionCatalogFilter = {}): Promise<CatalogVersion[]> {
+		const { versions } = await this.getManifest();
+		const time = (id: string) => {
+			const entry = versions.find(version => version.id === id);
+			if (!entry) throw new Error(`Minecraft ${id} is not found.`);
+			return Date.parse(entry.releaseTime);
+		};
+
+		let result: CatalogVersion[] = versions.map(version => ({ ...version }));
+
+		if (filter.type) {
+			const types: string[] = Array.isArray(filter.type) ? filter.type : [filter.type];
+			result = result.filter(version => types.includes(version.type));
+		}
+		if (filter.since) {
+			const since = time(filter.since);
+			result = result.filter(version => Date.parse(version.releaseTime) >= since);
+		}
+		if (filter.until) {
+			const until = time(filter.until);
+			result = result.filter(version => Date.parse(version.releaseTime) <= until);
+		}
+		if (filter.snapshotsOf) {
+			const [from, to] = this.getSnapshotWindow(versions, filter.snapshotsOf);
+			result = result.filter(version => {
+				if (version.type !== 'snapshot') return false;
+				if (version.id.startsWith(`${filter.snapshotsOf}-`)) return true;
+				const released = Date.parse(version.releaseTime);
+				return released > from && released <= to;
+			});
+		}
+
+		if (filter.java) {
+			for (let i = 0; i < result.length; i += JAVA_CONCURRENCY) {
+				await Promise.all(result.slice(i, i + JAVA_CONCURRENCY).map(async version => {
+					version.javaVersion = await this.getJavaVersion(version.id);
+				}));
+			}
+		}
+		return result;
+	}
+
+	/**
+	 * Finds a version by id; accepts the 'latest_release' / 'latest_snapshot'
+	 * shorthands ('r', 'lr', 's', 'ls').
+	 *
+	 * @returns null if the manifest has no such version
+	 */
+	public async get(id: string): Promise<CatalogVersion | null> {
+		const manifest = await this.getManifest();
+		if (id === 'latest_release' || id === 'r' || id === 'lr') id = manifest.latest.release;
+		else if (id === 'latest_snapshot' || id === 's' || id === 'ls') id = manifest.latest.snapshot;
+
+		const entry = manifest.versions.find(version => version.id === id);
+		return entry ? { ...entry } : null;
+	}
+
+	/** Fetches the JSON of a version (through the cache). */
+	public async getVersionJson(id: string): Promise<MinecraftVersionJSON> {
+		const entry = await this.get(id);
+		if (!entry) throw new Error(`Minecraft ${id} is not found.`);
+		return this.cache.json<MinecraftVersionJSON>(entry.url, 'version');
+	}
+
+	/**
+	 * Major Java version a version requires. Versions without `javaVersion`
+	 * in their JSON predate Java 16 and run on Java 8.
+	 */
+	public async getJavaVersion(id: string): Promise<number> {
+		return (await this.getVersionJson(id)).javaVersion?.majorVersion ?? 8;
+	}
+
+	/**
+	 * Release times bounding the snapshots of a release: after the previous
+	 * release, up to the release itself (or now if it is not out yet).
+	 */
+	private getSnapshotWindow(versions: MojangVersionManifest['versions'], id: string): [number, number] {
+		const release = versions.find(version => version.id === id && version.type === 'release');
+		const to = release ? Date.parse(release.releaseTime) : Infinity;
+
+		const previous = versions
+			.filter(version => version.type === 'release' && version.id !== id && Date.parse(version.releaseTime) < to)
+			.reduce((latest, version) => Math.max(latest, Date.parse(version.releaseTime)), -Infinity);
+		return [previous, to];
+	}
+}
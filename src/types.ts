@@ -6,6 +6,9 @@
  * All shared types are defined here for easier maintenance.
  */
 
+import type TransferControl from './utils/TransferControl.js';
+import type MetadataCache from './utils/MetadataCache.js';
+
 // ========================
 // Authenticator Types
 // ========================
@@ -214,6 +217,8 @@ export interface LoaderDownloaderOptions {
     path: string;
     loader: LoaderDownloaderConfig;
     downloadFileMultiple?: number;
+    cache?: MetadataCacheOptions;
+    downloader?: DownloaderOptions;
 }
 
 // ========================
@@ -239,12 +244,25 @@ export interface AssetIndex {
 export interface LibraryRule {
     action: 'allow' | 'disallow';
     os?: {
+        /** 'windows', 'osx' or 'linux' */
         name?: string;
+        /** Regex matched against the OS version (e.g. "^10\\.") */
         version?: string;
+        /** 'x86' for 32-bit, 'x86_64', 'arm64'... */
+        arch?: string;
+        /** Inclusive bounds on the OS version (e.g. { min: '10.0' }) */
+        versionRange?: { min?: string; max?: string };
     };
-    features?: Record<string, boolean>;
+    /** Launcher features that must all have these values for the rule to apply */
+    features?: RuleFeatures;
 }
 
+/**
+ * Launcher features rules depend on, e.g. is_demo_user, has_custom_resolution,
+ * has_quick_plays_support, is_quick_play_singleplayer. Missing ones are false.
+ */
+export type RuleFeatures = Record<string, boolean>;
+
 /** Library download artifact */
 export interface LibraryArtifact {
     sha1: string;
@@ -297,6 +315,12 @@ export interface LoggingConfig {
 export interface MinecraftVersionJSON {
     id: string;
     type: string;
+    /** Version this one is based on (custom versions in versions/<id>/) */
+    inheritsFrom?: string;
+    /** Version whose client jar is launched, when it is not `id` */
+    jar?: string;
+    time?: string;
+    releaseTime?: string;
     assets?: string;
     assetIndex?: AssetIndex;
     mainClass?: string;
@@ -339,6 +363,81 @@ export interface VersionEntry {
     url: string;
     time: string;
     releaseTime: string;
+    /** SHA-1 of the version JSON (version_manifest_v2) */
+    sha1?: string;
+    /** 1 for versions with the player safety features (version_manifest_v2) */
+    complianceLevel?: number;
+}
+
+/** Version types of the Mojang manifest */
+export type MinecraftVersionType = 'release' | 'snapshot' | 'old_beta' | 'old_alpha';
+
+/** A version listed by VersionCatalog */
+export interface CatalogVersion extends VersionEntry {
+    /** Major Java version required, when it was resolved (see `java` filter) */
+    javaVersion?: number;
+}
+
+/** Filters of VersionCatalog.list() */
+export interface VersionCatalogFilter {
+    /** Only these types */
+    type?: MinecraftVersionType | MinecraftVersionType[];
+    /** Versions released at or after this version id (e.g. '1.12') */
+    since?: string;
+    /** Versions released at or before this version id */
+    until?: string;
+    /**
+     * Snapshots, pre-releases and release candidates leading to a release
+     * (e.g. '1.21'), including an upcoming one not released yet.
+     */
+    snapshotsOf?: string;
+    /** Resolve `javaVersion` of each listed version (fetches their JSON). */
+    java?: boolean;
+}
+
+/** A profile of the vanilla launcher's `launcher_profiles.json` */
+export interface VanillaLauncherProfile {
+    name?: string;
+    /** 'latest-release', 'latest-snapshot' or 'custom' */
+    type?: string;
+    icon?: string;
+    created?: string;
+    lastUsed?: string;
+    /** Version id, or 'latest-release' / 'latest-snapshot' */
+    lastVersionId?: string;
+    gameDir?: string;
+    /** Path of the java binary */
+    javaDir?: string;
+    javaArgs?: string;
+    resolution?: { width: number; height: number };
+}
+
+/** Launch options mapped from a vanilla launcher profile */
+export interface ProfileLaunchOptions {
+    /** The launcher directory: its versions/, libraries/ and assets/ are reused. */
+    path: string;
+    version: string;
+    /** null when the game runs in `path` itself. */
+    gameDir: string | null;
+    /** `javaArgs` of the profile, without -Xms/-Xmx. */
+    JVM_ARGS: string[];
+    memory?: MemoryOptions;
+    screen?: ScreenOptions;
+    java?: { path: string };
+}
+
+/** A vanilla launcher profile, imported by LauncherProfiles */
+export interface ImportedProfile {
+    /** Key of the profile in launcher_profiles.json */
+    id: string;
+    name: string;
+    type: string;
+    icon: string | null;
+    /** Timestamps in ms, null if unknown */
+    created: number | null;
+    lastUsed: number | null;
+    /** Options to spread into Launch(), along with an authenticator. */
+    options: ProfileLaunchOptions;
 }
 
 /** The Mojang version manifest structure */
@@ -353,8 +452,11 @@ export interface MojangVersionManifest {
 /** Result of GetInfoVersion */
 export interface GetInfoVersionResult {
     InfoVersion: VersionEntry;
+    /** The version JSON, merged with the versions it inherits from */
     json: MinecraftVersionJSON;
     version: string;
+    /** JSONs of inherited versions fetched from Mojang, saved for offline launches */
+    inherited?: MinecraftVersionJSON[];
 }
 
 /** Error from GetInfoVersion */
@@ -377,6 +479,88 @@ export interface DownloadFile {
     content?: string;
     folder?: string;
     name?: string;
+    /** Alternate URLs tried when `url` fails. */
+    mirrors?: string[];
+    /** Retry policy for this file, overriding the downloader's. */
+    retry?: DownloadRetryPolicy;
+}
+
+/** Retry policy for a download; every field is optional and falls back to the defaults */
+export interface DownloadRetryPolicy {
+    /** Number of retries after the first attempt. Defaults to 3. */
+    retries?: number;
+    /** Base delay in ms, doubled after each failed attempt. Defaults to 1000. */
+    delay?: number;
+    /** Upper bound for the delay in ms. Defaults to 15000. */
+    maxDelay?: number;
+    /** Random spread applied to the delay, as a fraction (0.2 = ±20%). Defaults to 0.2. */
+    jitter?: number;
+}
+
+/** How SharedStore objects are placed into a game root */
+export type SharedStoreMode = 'hardlink' | 'reflink' | 'copy';
+
+/** Options for the SHA-1 addressed store shared between game roots */
+export interface SharedStoreOptions {
+    /** Store folder. The store is disabled when unset. */
+    path?: string | null;
+    /**
+     * Defaults to 'hardlink' (falls back to a copy across volumes). Hardlinked
+     * files share writes between every instance using them.
+     */
+    mode?: SharedStoreMode;
+}
+
+/** Options for the Downloader */
+export interface DownloaderOptions {
+    /** Bandwidth limit in bytes per second, shared by all concurrent downloads. 0 = unlimited. */
+    maxSpeed?: number;
+    /** Cancels the downloads; partial files are removed. */
+    signal?: AbortSignal;
+    /** Pause state and bandwidth limit shared between several downloaders. */
+    control?: TransferControl;
+    /** Shared store consulted before downloading and filled after each verified download. */
+    store?: SharedStoreOptions;
+    /** Default retry policy, overridable per file. */
+    retry?: DownloadRetryPolicy;
+    /**
+     * Alternate base URLs keyed by the URL prefix they replace, e.g.
+     * `{ 'https://resources.download.minecraft.net': ['https://my-mirror/assets'] }`.
+     */
+    mirrors?: Record<string, string[]>;
+}
+
+/** A failed attempt that downloadFileMultiple() is about to retry */
+export interface DownloadRetry {
+    path: string;
+    /** URL of the failed attempt */
+    url: string;
+    /** Number of the failed attempt, starting at 1 */
+    attempt: number;
+    error: unknown;
+}
+
+/** A downloaded file whose content did not match the expected SHA-1 or size */
+export interface DownloadCorruption {
+    path: string;
+    url: string;
+    expectedSha1: string | null;
+    actualSha1: string;
+    expectedSize: number | null;
+    actualSize: number;
+}
+
+/** A file downloadFileMultiple() could not fetch */
+export interface DownloadFailure {
+    path: string;
+    url?: string;
+    error: string;
+}
+
+/** Result of Downloader.downloadFileMultiple() */
+export interface DownloadSummary {
+    downloaded: number;
+    failed: DownloadFailure[];
 }
 
 /** Options for downloading a single file */
@@ -409,6 +593,116 @@ export interface BundleItem {
     url?: string;
 }
 
+/** How the verify cleanup treats files that are not part of the game */
+export interface CleanupOptions {
+    /** Move removed files to `<path>/quarantine/<id>` instead of deleting them. Defaults to true. */
+    quarantine?: boolean;
+    /** Only report what would be removed. */
+    dryRun?: boolean;
+    /**
+     * Glob patterns (relative to the game or instance directory) never removed.
+     * Defaults to `saves/`, `screenshots/`, `options.txt` and `logs/`.
+     */
+    protected?: string[];
+}
+
+/** Payload of the "cleanup" event */
+export interface CleanupReport {
+    dryRun: boolean;
+    /** Files removed, or that would be removed in a dry run. */
+    files: string[];
+    /** Quarantine entry holding the removed files, if any. */
+    quarantine: string | null;
+}
+
+/** A group of files moved to the quarantine by one cleanup */
+export interface QuarantineEntry {
+    id: string;
+    createdAt: number;
+    /** Game directory the files were removed from (absent in older entries: the root directory). */
+    root?: string;
+    /** Paths relative to `root`. */
+    files: string[];
+}
+
+/** Limits applied by MinecraftQuarantine.prune() */
+export interface QuarantinePruneOptions {
+    /** Deletes the entries older than this, in milliseconds. */
+    maxAge?: number;
+    /** Keeps at most this many entries, the newest ones. */
+    maxEntries?: number;
+}
+
+/** A file verifyInstallation() found missing or damaged */
+export interface InstallationIssue {
+    path: string;
+    /** File type: Libraries, Native, Assets, Java, CFILE or a custom type. */
+    category: string;
+    url?: string;
+    expectedSha1?: string;
+    actualSha1?: string;
+    expectedSize?: number;
+    actualSize?: number;
+    /** Content of generated files (CFILE), rewritten by repair(). */
+    content?: string;
+}
+
+/** File counts of one category in an InstallationReport */
+export interface InstallationCategoryReport {
+    total: number;
+    ok: number;
+    missing: number;
+    corrupt: number;
+    sizeMismatch: number;
+    ignored: number;
+}
+
+/** Result of Launch.verifyInstallation() */
+export interface InstallationReport {
+    /** Resolved Minecraft version id. */
+    version: string;
+    /** Game directory that was checked. */
+    path: string;
+    checkedAt: number;
+    /** True when nothing is missing, damaged or extra. */
+    ok: boolean;
+    missing: InstallationIssue[];
+    /** Files whose SHA-1 does not match. */
+    corrupt: InstallationIssue[];
+    sizeMismatch: InstallationIssue[];
+    /** Files verify mode would delete: not part of the version nor ignored. */
+    extra: string[];
+    /** Files skipped because of the `ignored` option. */
+    ignored: string[];
+    categories: Record<string, InstallationCategoryReport>;
+}
+
+/** Result of Launch.repair() */
+export interface RepairResult {
+    downloaded: number;
+    /** Generated files (version JSON, asset index...) written again. */
+    rewritten: number;
+    removed: string[];
+    failed: DownloadFailure[];
+}
+
+// ========================
+// Metadata Cache Types
+// ========================
+
+/** Kinds of cached metadata, each with its own TTL */
+export type MetadataCacheKind = 'manifest' | 'version' | 'assetIndex' | 'java' | 'loader';
+
+/** Options for the on-disk metadata cache */
+export interface MetadataCacheOptions {
+    /** Set to false to always hit the network. Defaults to true. */
+    enable?: boolean;
+    /** Cache folder. Defaults to `<path>/cache/meta`. */
+    path?: string;
+    /** Time-to-live in milliseconds, per kind of metadata. */
+    ttl?: Partial<Record<MetadataCacheKind, number>>;
+}
+
 // ========================
 // Java Types
 // ========================
@@ -422,20 +716,210 @@ export interface JavaOptions {
     path?: string;
     /**
      * Java version number (e.g., 21).
-     * If set, fetched from Azul API.
-     * If undefined, fetched from Mojang.
+     * If set, fetched from Azul unless `provider` says otherwise.
+     * If undefined, the version JSON decides and Mojang is tried first.
      */
     version?: string;
     /**
      * Java image type: 'jdk', 'jre', 'testimage', 'debugimage', 'staticlibs', 'sources', 'sbom'.
      */
     type: string;
+    /**
+     * Where runtimes are downloaded from: a built-in provider name, a custom
+     * JavaProvider, or a list tried in order until one has a runtime for this
+     * platform. Defaults to ['mojang', 'azul'], or ['azul'] when `version` is set.
+     */
+    provider?: JavaProviderName | JavaProvider | Array<JavaProviderName | JavaProvider>;
+    /** URL of the JSON manifest used by the 'custom' provider. */
+    manifest?: string;
+    /**
+     * Look for an installed Java (JAVA_HOME, PATH, /usr/lib/jvm, SDKMAN, asdf,
+     * runtime/) of the required major version and architecture before
+     * downloading one. Defaults to false.
+     */
+    discover?: boolean;
+    /**
+     * When the Java given by `path` or `version` cannot run this version
+     * (major version, loader requirement or architecture), download a managed
+     * runtime instead of failing. Defaults to false.
+     */
+    fallback?: boolean;
+}
+
+/** Java needed by a version and its loader */
+export interface JavaRequirement {
+    /** Lowest major version (javaVersion.majorVersion, raised by loaders like NeoForge) */
+    minMajor: number;
+    /** Highest major version, for loaders that break on newer Java (old Forge) */
+    maxMajor?: number;
+    /** Architecture the natives are downloaded for */
+    arch: string;
+}
+
+/** Why a Java binary cannot run the game */
+export type JavaCompatibilityIssue = 'java_version' | 'java_arch' | 'java_unusable';
+
+/** Error emitted (or passed to 'fallback') when the configured Java cannot run the game */
+export interface JavaCompatibilityError {
+    error: string;
+    kind: JavaCompatibilityIssue;
+    javaPath: string;
+    required: JavaRequirement;
+    /** What the binary reported, null when it does not run */
+    found: JavaInstallation | null;
+}
+
+/** Where a discovered Java installation was found */
+export type JavaInstallationSource = 'JAVA_HOME' | 'PATH' | 'system' | 'sdkman' | 'asdf' | 'runtime';
+
+/** A Java installation found on this machine */
+export interface JavaInstallation {
+    /** Absolute path of the java binary */
+    path: string;
+    /** java.home reported by the JVM */
+    home: string;
+    /** Full version (e.g. '21.0.4') */
+    version: string;
+    majorVersion: number;
+    /** java.vendor (e.g. 'Eclipse Adoptium') */
+    vendor: string;
+    /** 'x64', 'x86', 'aarch64', 'arm' or the raw os.arch of the JVM */
+    arch: string;
+    is64Bit: boolean;
+    source: JavaInstallationSource;
+}
+
+/** Built-in Java runtime providers */
+export type JavaProviderName = 'mojang' | 'azul' | 'adoptium' | 'microsoft' | 'corretto' | 'custom';
+
+/** Archive formats a provider may ship */
+export type JavaArchiveType = 'zip' | 'tar.gz';
+
+/** What a provider is asked for */
+export interface JavaRuntimeRequest {
+    /** Required major version (e.g. 21) */
+    majorVersion: number;
+    /** Mojang runtime component named by the version JSON (e.g. 'java-runtime-delta') */
+    component?: string;
+    /** 'jre' or 'jdk'. Vendors shipping only one of them ignore it. */
+    imageType: string;
+    /** 'windows', 'macos' or 'linux' */
+    platform: string;
+    /** 'x64', 'x86', 'aarch64' or 'arm' */
+    arch: string;
+}
+
+/** Checksum of a Java archive */
+export interface JavaChecksum {
+    algorithm: 'sha256' | 'sha1';
+    value: string;
+}
+
+/** A runtime shipped as a single archive (Azul, Adoptium, Microsoft, Corretto, custom) */
+export interface JavaArchivePackage {
+    kind: 'archive';
+    /** Name of the provider that resolved it */
+    provider: string;
+    /** Full Java version (e.g. '21.0.4+7') */
+    version: string;
+    url: string;
+    /** Archive file name, also used as the install folder name */
+    fileName: string;
+    archiveType: JavaArchiveType;
+    checksum?: JavaChecksum;
+    size?: number;
+    /** Path of the java binary inside the archive, when the provider knows it */
+    executable?: string;
+}
+
+/** A runtime shipped as a list of files (Mojang) */
+export interface JavaFilesPackage {
+    kind: 'files';
+    provider: string;
+    version: string;
+    /** Folder under runtime/ the files are installed into */
+    folder: string;
+    /** Files, with paths relative to `folder` */
+    files: JavaFileItem[];
+    /** Path of the java binary, relative to `folder` */
+    executable: string;
+}
+
+export type JavaPackage = JavaArchivePackage | JavaFilesPackage;
+
+/**
+ * A source of Java runtimes. Resolves the runtime matching a request, or
+ * null when it has none for this platform; throwing (e.g. host unreachable)
+ * makes the launcher try the next provider.
+ */
+export interface JavaProvider {
+    readonly name: string;
+    resolve(request: JavaRuntimeRequest, cache: MetadataCache): Promise<JavaPackage | null>;
+}
+
+/** A runtime installed under `<path>/runtime/` */
+export interface JavaRuntimeInfo {
+    /**
+     * Identifier, relative to runtime/: the Mojang component
+     * (e.g. 'java-runtime-delta') or 'jre-<major>/<archive name>'
+     */
+    id: string;
+    /** Mojang component, or 'jre-<major>' for archive runtimes */
+    component: string;
+    /** Folder removed with the runtime */
+    folder: string;
+    /** Absolute path of the java binary, null if the runtime is broken */
+    path: string | null;
+    /** JAVA_VERSION of the runtime `release` file */
+    version: string | null;
+    /** IMPLEMENTOR of the runtime `release` file */
+    vendor: string | null;
+    /** Size on disk, in bytes */
+    size: number;
+    /** When the game was last started with it (ms), null if unknown */
+    lastUsed: number | null;
+    /** When it was installed (ms) */
+    installedAt: number;
+}
+
+/** Options of JavaManager.prune() */
+export interface JavaPruneOptions {
+    /** Remove runtimes not used for this long (ms). Defaults to 30 days. */
+    unusedFor?: number;
+    /** Runtime ids or components never removed */
+    keep?: string[];
+    /** Only report what would be removed */
+    dryRun?: boolean;
+}
+
+/** Result of JavaManager.update() */
+export interface JavaRuntimeUpdate {
+    component: string;
+    /** false when the installed runtime was already the latest */
+    updated: boolean;
+    previousVersion: string | null;
+    version: string;
+}
+
+/** Options of JavaManager */
+export interface JavaManagerOptions {
+    /** Game directory (LaunchOptions.path) */
+    path: string;
+    cache?: MetadataCacheOptions;
+    downloader?: DownloaderOptions;
+    /** Parallel downloads during update(). Defaults to 5. */
+    downloadFileMultiple?: number;
+    timeout?: number;
+    /** Update the x64 runtime on Apple Silicon */
+    intelEnabledMac?: boolean;
 }
 
 /** Result from Java download */
 export interface JavaDownloadResult {
     files: JavaFileItem[];
     path: string;
+    /** Provider the runtime comes from */
+    provider?: string;
     error?: boolean;
     message?: string;
 }
@@ -462,6 +946,18 @@ export interface ScreenOptions {
     fullscreen?: boolean;
 }
 
+/** Where Quick Play takes the player once the game has started */
+export interface QuickPlayOptions {
+    /**
+     * 'singleplayer': a world folder of saves/; 'multiplayer': a server
+     * (host[:port], [ipv6]:port); 'realms': a realm id.
+     */
+    type: 'singleplayer' | 'multiplayer' | 'realms';
+    identifier: string;
+    /** File, relative to the game directory, the game logs the Quick Play session to. */
+    path?: string | null;
+}
+
 /** Memory limits */
 export interface MemoryOptions {
     /** Sets the `-Xms` JVM argument (initial memory). */
@@ -495,12 +991,36 @@ export interface LaunchOptions {
      * Separates game files from game data.
      */
     instance?: string | null;
+    /**
+     * Game directory (saves, mods, options.txt) anywhere on disk,
+     * instead of `path` or the instance directory. Overrides `instance`.
+     */
+    gameDir?: string | null;
     /** Should Minecraft process be independent of launcher? */
     detached?: boolean;
     /** How many concurrent downloads can be in progress at once. */
     downloadFileMultiple?: number;
     /** Bypass offline mode for multiplayer. */
     bypassOffline?: boolean;
+    /**
+     * Launch using only files already on disk (version JSON, asset index,
+     * Java runtime, loader JSON). Nothing is fetched or downloaded.
+     */
+    offline?: boolean;
+    /** On-disk cache for version, asset, Java and loader metadata. */
+    cache?: MetadataCacheOptions;
+    /** Retry policy, mirrors and bandwidth limit used when downloading game files. */
+    downloader?: DownloaderOptions;
+    /**
+     * SHA-1 addressed store shared by several game roots: libraries, assets
+     * and runtimes found there are linked into `path` instead of downloaded.
+     */
+    store?: SharedStoreOptions;
+    /**
+     * Cancels the install: downloads stop, partial files are removed
+     * and Launch emits "cancelled" instead of starting the game.
+     */
+    signal?: AbortSignal;
     /** Intel Macs: use dedicated GPU instead of integrated. */
     intelEnabledMac?: boolean;
     /** Ignore log4j configuration. */
@@ -511,16 +1031,39 @@ export interface LaunchOptions {
     mcp?: string | null;
     /** Should game files be verified each launch? */
     verify: boolean;
-    /** Files to ignore from instance. */
+    /**
+     * Hash every existing file instead of trusting the hash index
+     * (`<path>/cache/hash-index.json`) for files unchanged since their last check.
+     */
+    deep?: boolean;
+    /** Files to ignore from instance: glob patterns (`*`, `**`, `?`) or plain paths. */
     ignored: string[];
+    /** Cleanup done by `verify`: quarantine, dry run and protected files. */
+    cleanup?: CleanupOptions;
     /** Custom JVM arguments. */
     JVM_ARGS: string[];
+    /**
+     * JVM arguments added to those of the version JSON (G1 tuning and native
+     * directories by default). Placeholders such as `${natives_directory}` are
+     * replaced; `[]` turns the preset off.
+     */
+    JVM_PRESET?: string[];
+    /** Name and version reported to the game (`${launcher_name}`, `${launcher_version}`). */
+    launcher?: {
+        name?: string;
+        version?: string;
+    };
     /** Custom game arguments. */
     GAME_ARGS: string[];
     /** Java options. */
     java: JavaOptions;
     /** Screen options. */
     screen: ScreenOptions;
+    /**
+     * Joins a server, or opens a world or realm, as soon as the game starts.
+     * Versions before Quick Play (1.20) only support servers.
+     */
+    quickPlay?: QuickPlayOptions | null;
     /** Memory limit options. */
     memory: MemoryOptions;
 }
@@ -537,6 +1080,30 @@ export interface LaunchArguments {
     mainClass?: string;
 }
 
+/** Everything needed to start the game, returned by Launch.prepare() */
+export interface LaunchPlan {
+    /** Resolved Minecraft version id. */
+    version: string;
+    /** Loader version id, null for vanilla. */
+    loader: string | null;
+    /** Path to the java executable. */
+    java: string;
+    /** Working directory of the game process. */
+    cwd: string;
+    /** JVM arguments (Minecraft and loader), without the classpath. */
+    jvm: string[];
+    /** Classpath entries, in order. */
+    classpath: string[];
+    mainClass: string;
+    /** Game arguments (Minecraft and loader). */
+    game: string[];
+    /** Full argument list passed to java, in spawn order. */
+    arguments: string[];
+}
+
+/** Script flavours supported by MinecraftScript */
+export type LaunchScriptFormat = 'sh' | 'bat';
+
 /** Data returned by MinecraftLoader.GetArguments() */
 export interface LoaderArguments {
     game: string[];
@@ -544,6 +1111,83 @@ export interface LoaderArguments {
     mainClass?: string;
 }
 
+// ========================
+// Game Session Types
+// ========================
+
+/** How a game session ended */
+export interface GameSessionExit {
+    /** Process exit code, null if killed by a signal or never started. */
+    code: number | null;
+    /** Signal that terminated the process, if any. */
+    signal: NodeJS.Signals | null;
+    /** Milliseconds the process ran for. */
+    uptime: number;
+}
+
+/** Serialisable snapshot of a running or finished game session */
+export interface GameSessionInfo {
+    id: string;
+    pid?: number;
+    instance: string | null;
+    version: string;
+    startedAt: number;
+    stoppedAt: number | null;
+    exitCode: number | null;
+    signal: NodeJS.Signals | null;
+    uptime: number;
+    running: boolean;
+}
+
+// ========================
+// Game Log Types
+// ========================
+
+/** Log level of a game log record; UNKNOWN for lines without a recognised header */
+export type MinecraftLogLevel = 'TRACE' | 'DEBUG' | 'INFO' | 'WARN' | 'ERROR' | 'FATAL' | 'UNKNOWN';
+
+/** A single parsed line (or XML event) of game output */
+export interface MinecraftLogRecord {
+    /** Epoch milliseconds, null when the line carries no timestamp. */
+    timestamp: number | null;
+    thread: string | null;
+    level: MinecraftLogLevel;
+    logger: string | null;
+    message: string;
+    /** Attached stack trace, if any. */
+    throwable: string | null;
+    /** Output stream the record was read from. */
+    stream: 'stdout' | 'stderr';
+    /** Layout the record was parsed from. */
+    format: 'xml' | 'text';
+    /** The original text of the record. */
+    raw: string;
+}
+
+// ========================
+// Crash Report Types
+// ========================
+
+/** Known crash causes, 'unknown' when no signature matched */
+export type MinecraftCrashKind = 'out_of_memory' | 'java_version' | 'missing_natives' | 'mixin' | 'unknown';
+
+/** Crash information collected after the game exited abnormally */
+export interface MinecraftCrashReport {
+    exitCode: number | null;
+    signal: NodeJS.Signals | null;
+    kind: MinecraftCrashKind;
+    /** Actionable hint for known crash kinds. */
+    hint: string | null;
+    description: string | null;
+    suspectedMods: string[];
+    stackTrace: string | null;
+    /** Path to the crash-reports/*.txt written by this session, if any. */
+    crashReportPath: string | null;
+    /** Path to the hs_err_pid*.log written by this session, if any. */
+    jvmErrorPath: string | null;
+    time: number;
+}
+
 // ========================
 // Status Server Types
 // ========================
@@ -3,12 +3,15 @@
  * Luuxis License v1.0 (voir fichier LICENSE pour les détails en FR/EN)
  */
 
+import crypto from 'crypto';
 import fs from 'fs';
 import { EventEmitter } from 'events';
-import { fromAnyReadable } from './Index.js';
-import type { DownloadFile } from '../types.js';
+import { fromAnyReadable, mirrors } from './Index.js';
+import TransferControl, { abortable, abortReason } from './TransferControl.js';
+import SharedStore from './SharedStore.js';
+import type { DownloadCorruption, DownloadFile, DownloaderOptions, DownloadRetry, DownloadRetryPolicy, DownloadSummary } from '../types.js';
 
-export type { DownloadFile as DownloadOptions };
+export type { DownloadFile as DownloadOptions, DownloadCorruption, DownloaderOptions, DownloadRetry, DownloadRetryPolicy, DownloadSummary };
 
 /**
  * Files smaller than this threshold are downloaded as a single buffer
@@ -22,14 +25,71 @@ const SMALL_FILE_THRESHOLD = 1 * 1024 * 1024; // 1 MB
  */
 const PROGRESS_THROTTLE_MS = 50;
 
+/** Sidecar `<file>.part.json` describing an interrupted download */
+interface PartialDownload {
+	url: string;
+	etag?: string;
+	lastModified?: string;
+}
+
+/** Retry policy used when neither the downloader nor the file overrides it */
+const DEFAULT_RETRY: Required<DownloadRetryPolicy> = {
+	retries: 3,
+	delay: 1000,
+	maxDelay: 15000,
+	jitter: 0.2
+};
+
 /**
  * A class responsible for downloading single or multiple files,
  * emitting events for progress, speed, estimated time, and errors.
+ *
+ * Transfers can be paused, throttled (`maxSpeed`) and cancelled through
+ * `options.signal`; downloaders sharing `options.control` share the
+ * pause state and the bandwidth limit.
  */
 export default class Downloader extends EventEmitter {
+	private readonly options: DownloaderOptions;
+	private readonly retryPolicy: Required<DownloadRetryPolicy>;
+	private readonly control: TransferControl;
+	private readonly store: SharedStore;
+
+	constructor(options: DownloaderOptions = {}) {
+		super();
+		this.options = options;
+		this.retryPolicy = { ...DEFAULT_RETRY, ...options.retry };
+		this.control = options.control ?? new TransferControl(options.maxSpeed);
+		this.store = new SharedStore(options.store);
+	}
+
+	/** Holds every transfer at its next chunk until resume() is called. */
+	public pause(): void {
+		this.control.pause();
+	}
+
+	public resume(): void {
+		this.control.resume();
+	}
+
+	public get paused(): boolean {
+		return this.control.paused;
+	}
+
+	/**
+	 * Changes the bandwidth limit of all transfers sharing this downloader's control.
+	 *
+	 * @param bytesPerSecond New limit, 0 for unlimited
+	 */
+	public setMaxSpeed(bytesPerSecond: number): void {
+		this.control.setMaxSpeed(bytesPerSecond);
+	}
+
 	/**
 	 * Downloads a single file from the given URL to the specified local path.
 	 * Emits "progress" events with the number of bytes downloaded and total size.
+	 * The file is written to a `.part` file first, so an interrupted download
+	 * resumes where it stopped on the next call (see fetchResumable).
+	 * Cancelling through `options.signal` removes the partial file and rejects.
 	 *
 	 * @param url - The remote URL to download from
 	 * @param dirPath - Local folder path where the file is saved
@@ -41,34 +101,26 @@ export default class Downloader extends EventEmitter {
 		}
 
 		const filePath = `${dirPath}/${fileName}`;
-		const writer = fs.createWriteStream(filePath);
-		const response = await fetch(url);
-
-		const contentLength = response.headers.get('content-length');
-		const totalSize = contentLength ? parseInt(contentLength, 10) : 0;
-
 		let downloaded = 0;
+		let totalSize = 0;
 
-		return new Promise<void>((resolve, reject) => {
-			const body = fromAnyReadable(response.body as ReadableStream<Uint8Array>);
-
-			body.on('data', (chunk: Buffer) => {
-				downloaded += chunk.length;
-				this.emit('progress', downloaded, totalSize);
-				writer.write(chunk);
-			});
-
-			body.on('end', () => {
-				writer.end(() => resolve());
-			});
-
-			body.on('error', (err: Error) => {
-				writer.destroy();
-				try { fs.unlinkSync(filePath); } catch { /* ignore */ }
-				this.emit('error', err);
-				reject(err);
+		try {
+			await this.fetchResumable(url, filePath, {
+				onStart: (offset, total) => {
+					downloaded = offset;
+					totalSize = total;
+					this.emit('progress', downloaded, totalSize);
+				},
+				onData: (chunk) => {
+					downloaded += chunk.length;
+					this.emit('progress', downloaded, totalSize);
+				}
 			});
-		});
+		} catch (err) {
+			if (this.options.signal?.aborted) discardPartial(`${filePath}.part`);
+			this.emit('error', err);
+			throw err;
+		}
 	}
 
 	/**
@@ -76,21 +128,39 @@ export default class Downloader extends EventEmitter {
 	 * Small files (< 1 MB) are fetched as a single buffer and written at once,
 	 * avoiding per-file stream/event overhead. Large files are streamed to disk.
 	 *
+	 * The SHA-1 is computed while the file is written and compared, along with
+	 * the size, to the expected values; a mismatch emits "corrupt" and counts
+	 * as a failed attempt. A failed fetch is retried with exponential backoff,
+	 * rotating through the file's alternate URLs (see getCandidateURLs). Files
+	 * still failing once their retries are exhausted are reported in the
+	 * returned summary (no "error" event is emitted for them).
+	 *
 	 * Progress events are throttled to avoid flooding the event loop.
 	 * Directories are pre-created in a single pass before downloading begins.
 	 *
+	 * Files with a known SHA-1 are taken from the shared store (`options.store`)
+	 * when it holds them, and added to it once downloaded and verified.
+	 *
+	 * When `options.signal` aborts, in-flight files and their `.part` files
+	 * are removed and the returned promise rejects with the abort reason.
+	 *
 	 * @param files   - Array of DownloadFile describing each file
 	 * @param size    - Total size (bytes) of all files to download
 	 * @param limit   - Maximum number of simultaneous downloads
 	 * @param timeout - Timeout in ms for each fetch request
+	 * @returns A summary of downloaded and failed files
 	 */
 	public async downloadFileMultiple(
 		files: DownloadFile[],
 		size: number,
 		limit: number = 1,
 		timeout: number = 10000
-	): Promise<void> {
-		if (files.length === 0) return;
+	): Promise<DownloadSummary> {
+		const signal = this.options.signal;
+		signal?.throwIfAborted();
+
+		const summary: DownloadSummary = { downloaded: 0, failed: [] };
+		if (files.length === 0) return summary;
 		if (limit > files.length) limit = files.length;
 
 		let downloaded = 0;
@@ -136,49 +206,124 @@ export default class Downloader extends EventEmitter {
 			}
 		};
 
+		// ── Single attempt: fetch one URL into file.path ──────────────
+		const attempt = async (file: DownloadFile, url: string, onBytes: (n: number) => void): Promise<void> => {
+			let sha1: string;
+			let written = 0;
+
+			if (!file.size || file.size < SMALL_FILE_THRESHOLD) {
+				// ── Small file: single buffer write (no stream overhead) ──
+				await this.control.consume(0, signal);
+				const request = this.requestSignal(timeout);
+
+				let buffer: Buffer;
+				try {
+					// The timeout and abort also cover reading the body
+					const response = await fetch(url, { signal: request.signal });
+					if (!response.ok) throw new Error(`HTTP ${response.status} for ${url}`);
+					buffer = Buffer.from(await response.arrayBuffer());
+				} finally {
+					request.clear();
+				}
+				await this.control.consume(buffer.length, signal);
+				sha1 = crypto.createHash('sha1').update(buffer).digest('hex');
+				written = buffer.length;
+				// Never write through a hardlink into the shared store
+				try { fs.unlinkSync(file.path); } catch { /* ignore */ }
+				fs.writeFileSync(file.path, buffer, { mode: 0o777 });
+				onBytes(buffer.length);
+				emitProgress(file.type);
+			} else {
+				// ── Large file: resumable stream to disk, hashing as it goes ──
+				const result = await this.fetchResumable(url, file.path, {
+					timeout,
+					onStart: (offset) => {
+						written = offset;
+						onBytes(offset);
+					},
+					onData: (chunk) => {
+						written += chunk.length;
+						onBytes(chunk.length);
+						emitProgress(file.type);
+					}
+				});
+				sha1 = result.sha1;
+			}
+
+			// ── Integrity check ───────────────────────────────────────────
+			const sizeMismatch = !!file.size && written !== file.size;
+			const hashMismatch = !!file.sha1 && sha1 !== file.sha1.toLowerCase();
+			if (sizeMismatch || hashMismatch) {
+				const corruption: DownloadCorruption = {
+					path: file.path,
+					url,
+					expectedSha1: file.sha1 ?? null,
+					actualSha1: sha1,
+					expectedSize: file.size ?? null,
+					actualSize: written
+				};
+				this.emit('corrupt', corruption);
+				throw new Error(hashMismatch
+					? `SHA-1 mismatch for ${file.path}: expected ${file.sha1}, got ${sha1}`
+					: `Size mismatch for ${file.path}: expected ${file.size} bytes, got ${written}`);
+			}
+		};
+
 		// ── Worker: loops picking files from queue until exhausted ────
 		const worker = async (): Promise<void> => {
 			while (queued < files.length) {
 				const file = files[queued++];
 
-				const controller = new AbortController();
-				const tid = setTimeout(() => controller.abort(), timeout);
+				if (file.sha1 && await this.store.materialise(file.sha1, file.path, file.size)) {
+					downloaded += file.size ?? 0;
+					summary.downloaded++;
+					emitProgress(file.type);
+					continue;
+				}
 
-				try {
-					const response = await fetch(file.url!, { signal: controller.signal });
-					clearTimeout(tid);
-
-					if (!file.size || file.size < SMALL_FILE_THRESHOLD) {
-						// ── Small file: single buffer write (no stream overhead) ──
-						const buffer = Buffer.from(await response.arrayBuffer());
-						fs.writeFileSync(file.path, buffer, { mode: 0o777 });
-						downloaded += buffer.length;
-						emitProgress(file.type);
-					} else {
-						// ── Large file: stream to disk ────────────────────────────
-						await new Promise<void>((resolve, reject) => {
-							const writer = fs.createWriteStream(file.path, { flags: 'w', mode: 0o777 });
-							const stream = fromAnyReadable(response.body as ReadableStream<Uint8Array>);
-
-							stream.on('data', (chunk: Buffer) => {
-								downloaded += chunk.length;
-								emitProgress(file.type);
-								writer.write(chunk);
-							});
-
-							stream.on('end', () => writer.end(() => resolve()));
-
-							stream.on('error', (err) => {
-								writer.destroy();
-								try { fs.unlinkSync(file.path); } catch { /* ignore */ }
-								reject(err);
-							});
+				const urls = this.getCandidateURLs(file);
+				const policy = { ...this.retryPolicy, ...file.retry };
+
+				let lastError: unknown = new Error(`No URL for ${file.path}`);
+				let success = false;
+
+				for (let i = 0; urls.length > 0 && i <= policy.retries && !signal?.aborted; i++) {
+					// Rotate through mirrors so each retry tries the next URL
+					const url = urls[i % urls.length];
+					let fileBytes = 0;
+
+					try {
+						await attempt(file, url, (n) => {
+							fileBytes += n;
+							downloaded += n;
 						});
+						success = true;
+						break;
+					} catch (e) {
+						lastError = e;
+						downloaded -= fileBytes;
+						try { fs.unlinkSync(file.path); } catch { /* ignore */ }
+						if (signal?.aborted) discardPartial(`${file.path}.part`);
+
+						if (i < policy.retries && !signal?.aborted) {
+							const retry: DownloadRetry = { path: file.path, url, attempt: i + 1, error: e };
+							this.emit('retry', retry);
+							await abortable(sleep(backoffDelay(policy, i)), signal).catch(() => { });
+						}
 					}
-				} catch (e) {
-					clearTimeout(tid);
-					try { fs.unlinkSync(file.path); } catch { /* ignore */ }
-					this.emit('error', e);
+				}
+
+				if (signal?.aborted) return;
+
+				if (success) {
+					if (file.sha1) this.store.add(file.sha1, file.path);
+					summary.downloaded++;
+				} else {
+					summary.failed.push({
+						path: file.path,
+						url: file.url,
+						error: lastError instanceof Error ? lastError.message : String(lastError)
+					});
 				}
 			}
 		};
@@ -188,10 +333,191 @@ export default class Downloader extends EventEmitter {
 		for (let i = 0; i < limit; i++) {
 			workers.push(worker());
 		}
-		await Promise.all(workers);
+		try {
+			await Promise.all(workers);
+		} finally {
+			clearInterval(speedInterval);
+			this.store.save();
+		}
+		if (signal?.aborted) throw abortReason(signal);
 
-		clearInterval(speedInterval);
 		emitProgress(undefined, true); // final progress update
+		return summary;
+	}
+
+	/**
+	 * Streams a URL to `filePath` through a `<filePath>.part` file and returns
+	 * the SHA-1 of the complete file.
+	 *
+	 * When a `.part` file from a previous attempt exists for the same URL, the
+	 * request asks for the remaining bytes with a `Range` header, guarded by
+	 * `If-Range` so a file that changed on the server is downloaded again in
+	 * full. Servers without range support answer 200 and the download restarts
+	 * from zero. The `.part` file is kept when the transfer is interrupted and
+	 * renamed over `filePath` once complete.
+	 *
+	 * @param url      The remote URL
+	 * @param filePath Final path of the file
+	 * @param handlers `onStart(offset, total)` once the response is received
+	 *                 (offset = bytes resumed), `onData(chunk)` per new chunk,
+	 *                 and an optional timeout (ms) for the response headers
+	 */
+	private async fetchResumable(
+		url: string,
+		filePath: string,
+		handlers: { timeout?: number; onStart?: (offset: number, total: number) => void; onData?: (chunk: Buffer) => void }
+	): Promise<{ sha1: string; size: number }> {
+		const partPath = `${filePath}.part`;
+		const metaPath = `${partPath}.json`;
+
+		let offset = 0;
+		let meta: PartialDownload | null = null;
+		try {
+			meta = JSON.parse(fs.readFileSync(metaPath, 'utf-8'));
+			if (meta?.url === url && fs.existsSync(partPath)) offset = fs.statSync(partPath).size;
+		} catch { /* no previous attempt */ }
+
+		const headers: Record<string, string> = {};
+		if (offset > 0) {
+			headers['Range'] = `bytes=${offset}-`;
+			const validator = meta?.etag ?? meta?.lastModified;
+			if (validator) headers['If-Range'] = validator;
+		}
+
+		await this.control.consume(0, this.options.signal);
+		const request = this.requestSignal(handlers.timeout);
+
+		let response: Response;
+		try {
+			response = await fetch(url, { headers, signal: request.signal });
+		} finally {
+			request.clear();
+		}
+
+		if (response.status === 416) {
+			// The partial file is not a prefix of the remote one: start over next time
+			discardPartial(partPath);
+			throw new Error(`HTTP 416 for ${url}`);
+		}
+		if (!response.ok) throw new Error(`HTTP ${response.status} for ${url}`);
+
+		// Only append when the server really resumed at our offset
+		const range = response.headers.get('content-range')?.match(/^bytes (\d+)-/);
+		const resumed = response.status === 206 && offset > 0 && range !== null && range !== undefined && Number(range[1]) === offset;
+		if (response.status === 206 && !resumed) {
+			discardPartial(partPath);
+			throw new Error(`Unexpected partial response for ${url}`);
+		}
+		if (!resumed) offset = 0;
+
+		const hash = crypto.createHash('sha1');
+		if (resumed) await hashFile(partPath, hash);
+
+		const partial: PartialDownload = {
+			url,
+			etag: response.headers.get('etag') ?? undefined,
+			lastModified: response.headers.get('last-modified') ?? undefined
+		};
+		fs.writeFileSync(metaPath, JSON.stringify(partial));
+
+		const contentLength = Number(response.headers.get('content-length') ?? 0);
+		handlers.onStart?.(offset, contentLength ? offset + contentLength : 0);
+
+		let size = offset;
+		await new Promise<void>((resolve, reject) => {
+			const writer = fs.createWriteStream(partPath, { flags: resumed ? 'a' : 'w', mode: 0o777 });
+			const stream = fromAnyReadable(response.body as ReadableStream<Uint8Array>);
+
+			const onAbort = () => stream.destroy(abortReason(this.options.signal!));
+			this.options.signal?.addEventListener('abort', onAbort, { once: true });
+
+			stream.on('data', (chunk: Buffer) => {
+				hash.update(chunk);
+				size += chunk.length;
+				handlers.onData?.(chunk);
+				writer.write(chunk);
+
+				// Hold the stream while paused or over the bandwidth budget
+				stream.pause();
+				this.control.consume(chunk.length, this.options.signal).then(
+					() => stream.resume(),
+					(err) => stream.destroy(err)
+				);
+			});
+
+			stream.on('end', () => {
+				this.options.signal?.removeEventListener('abort', onAbort);
+				writer.end(() => resolve());
+			});
+
+			stream.on('error', (err) => {
+				// Keep the .part file: the next attempt resumes from it
+				this.options.signal?.removeEventListener('abort', onAbort);
+				writer.end();
+				reject(err);
+			});
+
+			writer.on('error', reject);
+		});
+
+		fs.renameSync(partPath, filePath);
+		try { fs.unlinkSync(metaPath); } catch { /* ignore */ }
+
+		return { sha1: hash.digest('hex'), size };
+	}
+
+	/**
+	 * Signal for a single request: aborts after `timeout` ms (response headers
+	 * only, cleared by the caller) or when the downloader is cancelled.
+	 */
+	private requestSignal(timeout?: number): { signal: AbortSignal; clear: () => void } {
+		const controller = new AbortController();
+		const cancel = this.options.signal;
+		const onAbort = () => controller.abort(abortReason(cancel!));
+
+		if (cancel?.aborted) onAbort();
+		else cancel?.addEventListener('abort', onAbort, { once: true });
+
+		const tid = timeout ? setTimeout(() => controller.abort(), timeout) : null;
+		return {
+			signal: controller.signal,
+			clear: () => {
+				if (tid) clearTimeout(tid);
+				cancel?.removeEventListener('abort', onAbort);
+			}
+		};
+	}
+
+	/**
+	 * Lists the URLs a file can be fetched from, in order of preference:
+	 * its own URL, its explicit `mirrors`, then the configured mirrors whose
+	 * prefix matches the URL (Maven artifacts fail over across the built-in
+	 * Maven mirror list).
+	 *
+	 * @param file The file to download
+	 */
+	public getCandidateURLs(file: DownloadFile): string[] {
+		const urls: string[] = [];
+		if (file.url) urls.push(file.url);
+		if (file.mirrors) urls.push(...file.mirrors);
+
+		if (file.url) {
+			const prefixes: Record<string, string[]> = { ...this.mavenMirrors(), ...this.options.mirrors };
+			for (const [prefix, alternates] of Object.entries(prefixes)) {
+				if (!file.url.startsWith(prefix)) continue;
+				const suffix = file.url.slice(prefix.length);
+				for (const alternate of alternates) urls.push(`${alternate.replace(/\/+$/, '')}${suffix}`);
+			}
+		}
+
+		return Array.from(new Set(urls));
+	}
+
+	/** Each built-in Maven mirror fails over to the other ones. */
+	private mavenMirrors(): Record<string, string[]> {
+		const map: Record<string, string[]> = {};
+		for (const mirror of mirrors) map[mirror] = mirrors.filter(m => m !== mirror);
+		return map;
 	}
 
 	/**
@@ -259,3 +585,45 @@ export default class Downloader extends EventEmitter {
 		return false;
 	}
 }
+
+/**
+ * Throws when downloadFileMultiple() left files behind, listing them.
+ *
+ * @param summary  Result of downloadFileMultiple()
+ * @param singular What the files are, e.g. 'library'
+ * @param plural   Plural of `singular`
+ */
+export function assertDownloaded(summary: DownloadSummary, singular = 'file', plural = `${singular}s`): void {
+	const { failed } = summary;
+	if (failed.length === 0) return;
+	throw new Error(`${failed.length} ${failed.length > 1 ? plural : singular} could not be downloaded: ${failed.map(file => file.path).join(', ')}`);
+}
+
+/**
+ * Exponential backoff: delay * 2^attempt, capped at maxDelay,
+ * then randomised by ±jitter so parallel workers don't retry in lockstep.
+ */
+function backoffDelay(policy: Required<DownloadRetryPolicy>, attempt: number): number {
+	const base = Math.min(policy.maxDelay, policy.delay * 2 ** attempt);
+	const spread = base * policy.jitter;
+	return Math.max(0, base - spread + Math.random() * spread * 2);
+}
+
+function sleep(ms: number): Promise<void> {
+	return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/** Feeds an existing file into a hash, used to resume hashing a `.part` file. */
+function hashFile(filePath: string, hash: crypto.Hash): Promise<void> {
+	return new Promise((resolve, reject) => {
+		fs.createReadStream(filePath)
+			.on('data', (chunk) => hash.update(chunk))
+			.on('end', () => resolve())
+			.on('error', reject);
+	});
+}
+
+function discardPartial(partPath: string): void {
+	try { fs.unlinkSync(partPath); } catch { /* ignore */ }
+	try { fs.unlinkSync(`${partPath}.json`); } catch { /* ignore */ }
+}
@@ -0,0 +1,77 @@
+/**
+ * @author Luuxis
+ * Luuxis License v1.0 (voir fichier LICENSE pour les détails en FR/EN)
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+/** Bumped whenever the on-disk layout changes; older indexes are discarded */
+const INDEX_VERSION = 1;
+
+/** [size, mtimeMs, inode, sha1] */
+type IndexEntry = [number, number, number, string];
+
+/**
+ * Persisted record of the SHA-1 of files already verified, keyed by path.
+ * A file whose size, mtime and inode are unchanged since it was hashed
+ * keeps its recorded SHA-1, so it does not need to be read again.
+ */
+export default class HashIndex {
+	private readonly file: string;
+	private entries: Record<string, IndexEntry> = {};
+	private dirty = false;
+
+	/**
+	 * @param file Path of the index file (e.g. `<root>/cache/hash-index.json`)
+	 */
+	constructor(file: string) {
+		this.file = file;
+		try {
+			const data = JSON.parse(fs.readFileSync(file, 'utf-8'));
+			if (data?.version === INDEX_VERSION && data.entries) this.entries = data.entries;
+		} catch {
+			// Missing or unreadable index: every file is hashed once
+		}
+	}
+
+	/**
+	 * Returns the recorded SHA-1 of a file if it has not changed since,
+	 * or null when it must be hashed.
+	 */
+	public lookup(filePath: string, stat: fs.Stats): string | null {
+		const entry = this.entries[filePath];
+		if (!entry) return null;
+
+		const [size, mtime, inode, sha1] = entry;
+		if (size !== stat.size || mtime !== stat.mtimeMs || inode !== stat.ino) return null;
+		return sha1;
+	}
+
+	/** Records the SHA-1 of a file that was just hashed. */
+	public set(filePath: string, stat: fs.Stats, sha1: string): void {
+		this.entries[filePath] = [stat.size, stat.mtimeMs, stat.ino, sha1];
+		this.dirty = true;
+	}
+
+	public delete(filePath: string): void {
+		if (!(filePath in this.entries)) return;
+		delete this.entries[filePath];
+		this.dirty = true;
+	}
+
+	/** Writes the index back to disk if anything changed. */
+	public save(): void {
+		if (!this.dirty) return;
+		const tmpPath = `${this.file}.${process.pid}.tmp`;
+		try {
+			fs.mkdirSync(path.dirname(this.file), { recursive: true });
+			fs.writeFileSync(tmpPath, JSON.stringify({ version: INDEX_VERSION, entries: this.entries }));
+			fs.renameSync(tmpPath, this.file);
+			this.dirty = false;
+		} catch {
+			// Losing the index only costs a rehash on the next launch
+			try { fs.unlinkSync(tmpPath); } catch { /* ignore */ }
+		}
+	}
+}
@@ -7,14 +7,15 @@ import crypto from 'crypto';
 import fs from 'fs';
 import { Readable } from 'node:stream';
 import Unzipper from './unzipper.js';
+import { evaluateRules } from './Rules.js';
 import type {
 	MinecraftLibrary,
 	MinecraftVersionJSON,
-	LibraryRule,
 	ForgeLoaderData,
 	NeoForgeLoaderData,
 	FabricLoaderData,
 	ArchiveEntry,
+	LaunchOptions,
 } from '../types.js';
 
 /**
@@ -77,6 +78,17 @@ async function getFileHash(filePath: string, algorithm: string = 'sha1'): Promis
 	});
 }
 
+/**
+ * Returns the directory the game runs in: `gameDir` if set, otherwise the
+ * instance directory (`<path>/instances/<instance>`) or `path` itself.
+ *
+ * @param options The launch options
+ */
+function getGameDirectory(options: LaunchOptions): string {
+	if (options.gameDir) return options.gameDir;
+	return options.instance ? `${options.path}/instances/${options.instance}` : options.path;
+}
+
 /**
  * Determines if a given Minecraft version JSON is considered "old"
  * by checking its assets field (e.g., "legacy" or "pre-1.6").
@@ -180,51 +192,55 @@ async function getFileFromArchive(jar: string, file: string | null = null, prefi
 }
 
 /**
- * Determines if a library should be skipped based on its 'rules' property.
- * For example, it might skip libraries if action='disallow' for the current OS,
- * or if there are specific conditions not met.
+ * Determines if a library should be skipped based on its 'rules' property
+ * (OS name, version and architecture; rules needing a launcher feature never apply).
  *
  * @param lib A library object (with optional 'rules' array)
  * @returns true if the library should be skipped, false otherwise
  */
 function skipLibrary(lib: MinecraftLibrary): boolean {
-	// Map Node.js platform strings to Mojang's naming
-	const LibMap: Record<string, string> = {
-		win32: 'windows',
-		darwin: 'osx',
-		linux: 'linux'
-	};
-
-	// If no rules, it's not skipped
-	if (!lib.rules) {
-		return false;
-	}
-
-	let shouldSkip = true;
-
-	for (const rule of lib.rules) {
-		// If features exist, your logic can handle them here
-		if (rule.features) {
-			// Implementation is up to your usage
-			continue;
-		}
+	return !evaluateRules(lib.rules);
+}
 
-		// "allow" means it can be used if OS matches (or no OS specified)
-		// "disallow" means skip if OS matches (or no OS specified)
-		if (
-			rule.action === 'allow' &&
-			((rule.os && rule.os.name === LibMap[process.platform]) || !rule.os)
-		) {
-			shouldSkip = false;
-		} else if (
-			rule.action === 'disallow' &&
-			((rule.os && rule.os.name === LibMap[process.platform]) || !rule.os)
-		) {
-			shouldSkip = true;
-		}
-	}
+/**
+ * Builds a matcher for paths relative to the game directory. Patterns accept
+ * `*` (within a folder), `**` (across folders) and `?`; a pattern matching a
+ * folder also matches everything inside it, so plain paths such as
+ * `config` or `saves/` keep working.
+ *
+ * @param patterns Glob patterns, with '/' or '\' separators
+ */
+function pathMatcher(patterns: string[]): (relativePath: string) => boolean {
+	const expressions = patterns
+		.map(pattern => pattern.replace(/\\/g, '/').replace(/^\/+/, '').replace(/\/+$/, ''))
+		.filter(Boolean)
+		.map(pattern => {
+			let source = '';
+			for (let i = 0; i < pattern.length; i++) {
+				const char = pattern[i];
+				if (char === '*' && pattern[i + 1] === '*') {
+					i++;
+					if (pattern[i + 1] === '/') {
+						i++;
+						source += '(?:.*/)?';
+					} else {
+						source += '.*';
+					}
+				} else if (char === '*') {
+					source += '[^/]*';
+				} else if (char === '?') {
+					source += '[^/]';
+				} else {
+					source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+				}
+			}
+			return new RegExp(`^${source}(?:/.*)?$`);
+		});
 
-	return shouldSkip;
+	return (relativePath: string) => {
+		const normalised = relativePath.replace(/\\/g, '/').replace(/^\/+/, '');
+		return expressions.some(expression => expression.test(normalised));
+	};
 }
 
 function fromAnyReadable(webStream: ReadableStream<Uint8Array>): import('node:stream').Readable {
@@ -257,9 +273,11 @@ export {
 	getPathLibraries,
 	getFileHash,
 	isold,
+	getGameDirectory,
 	loader,
 	mirrors,
 	getFileFromArchive,
 	skipLibrary,
+	pathMatcher,
 	fromAnyReadable
 };
@@ -0,0 +1,163 @@
+/**
+ * @author Luuxis
+ * Luuxis License v1.0 (voir fichier LICENSE pour les détails en FR/EN)
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import type { MetadataCacheKind, MetadataCacheOptions } from '../types.js';
+
+export type { MetadataCacheKind, MetadataCacheOptions };
+
+/**
+ * Default time-to-live (ms) per kind of metadata. Within the TTL the cached
+ * copy is used without any request; after it, the entry is revalidated.
+ */
+const DEFAULT_TTL: Record<MetadataCacheKind, number> = {
+	manifest: 10 * 60 * 1000,           // version_manifest_v2.json changes with every snapshot
+	version: 7 * 24 * 60 * 60 * 1000,   // version JSONs and asset indexes are content addressed
+	assetIndex: 7 * 24 * 60 * 60 * 1000,
+	java: 60 * 60 * 1000,
+	loader: 60 * 60 * 1000
+};
+
+/** Metadata stored next to each cached body */
+interface CacheEntry {
+	url: string;
+	fetchedAt: number;
+	etag?: string;
+	lastModified?: string;
+}
+
+/**
+ * A small on-disk HTTP cache for JSON/text metadata (version manifest, loader
+ * metadata, Java runtime lists...). Entries are revalidated with
+ * If-None-Match / If-Modified-Since once their TTL expires, and the stale
+ * copy is served if the network request fails.
+ */
+export default class MetadataCache {
+	private readonly options: MetadataCacheOptions;
+
+	constructor(options: MetadataCacheOptions = {}) {
+		this.options = options;
+	}
+
+	/**
+	 * Fetches a URL and parses the body as JSON, going through the cache.
+	 *
+	 * @param url  The remote URL
+	 * @param kind Kind of metadata, selects the TTL
+	 */
+	public async json<T = unknown>(url: string, kind: MetadataCacheKind): Promise<T> {
+		return JSON.parse(await this.text(url, kind));
+	}
+
+	/**
+	 * Fetches a URL and returns the body as text, going through the cache.
+	 * Throws if the request fails and no cached copy exists.
+	 *
+	 * @param url  The remote URL
+	 * @param kind Kind of metadata, selects the TTL
+	 */
+	public async text(url: string, kind: MetadataCacheKind): Promise<string> {
+		if (this.options.enable === false || !this.options.path) {
+			const response = await fetch(url);
+			if (!response.ok) throw new Error(`HTTP ${response.status} while fetching ${url}`);
+			return response.text();
+		}
+
+		const { bodyPath, entryPath } = this.getPaths(url);
+		const entry = this.readEntry(entryPath);
+		const cached = entry && fs.existsSync(bodyPath) ? fs.readFileSync(bodyPath, 'utf-8') : null;
+
+		const ttl = this.options.ttl?.[kind] ?? DEFAULT_TTL[kind];
+		if (entry && cached !== null && Date.now() - entry.fetchedAt < ttl) return cached;
+
+		const headers: Record<string, string> = {};
+		if (entry && cached !== null) {
+			if (entry.etag) headers['If-None-Match'] = entry.etag;
+			if (entry.lastModified) headers['If-Modified-Since'] = entry.lastModified;
+		}
+
+		let response: Response;
+		try {
+			response = await fetch(url, { headers });
+		} catch (err) {
+			// stale-if-error: the network is down, serve what we have
+			if (cached !== null) return cached;
+			throw err;
+		}
+
+		if (response.status === 304 && entry && cached !== null) {
+			this.writeEntry(entryPath, { ...entry, fetchedAt: Date.now() });
+			return cached;
+		}
+
+		if (!response.ok) {
+			if (cached !== null) return cached;
+			throw new Error(`HTTP ${response.status} while fetching ${url}`);
+		}
+
+		const body = await response.text();
+		this.writeAtomic(bodyPath, body);
+		this.writeEntry(entryPath, {
+			url,
+			fetchedAt: Date.now(),
+			etag: response.headers.get('etag') ?? undefined,
+			lastModified: response.headers.get('last-modified') ?? undefined
+		});
+		return body;
+	}
+
+	/**
+	 * Returns the cached body for a URL without any network access,
+	 * or null if it was never fetched.
+	 */
+	public peek(url: string): string | null {
+		if (!this.options.path) return null;
+		const { bodyPath } = this.getPaths(url);
+		return fs.existsSync(bodyPath) ? fs.readFileSync(bodyPath, 'utf-8') : null;
+	}
+
+	/**
+	 * Removes every cached entry.
+	 */
+	public clear(): void {
+		if (!this.options.path) return;
+		fs.rmSync(this.options.path, { recursive: true, force: true });
+	}
+
+	private getPaths(url: string): { bodyPath: string; entryPath: string } {
+		const key = crypto.createHash('sha1').update(url).digest('hex');
+		const folder = path.join(this.options.path!, key.substring(0, 2));
+		return {
+			bodyPath: path.join(folder, `${key}.body`),
+			entryPath: path.join(folder, `${key}.json`)
+		};
+	}
+
+	private readEntry(entryPath: string): CacheEntry | null {
+		try {
+			return JSON.parse(fs.readFileSync(entryPath, 'utf-8'));
+		} catch {
+			return null;
+		}
+	}
+
+	private writeEntry(entryPath: string, entry: CacheEntry): void {
+		this.writeAtomic(entryPath, JSON.stringify(entry));
+	}
+
+	/** Writes through a temp file so a crash never leaves a truncated entry. */
+	private writeAtomic(filePath: string, content: string): void {
+		try {
+			fs.mkdirSync(path.dirname(filePath), { recursive: true });
+			const tmpPath = `${filePath}.${process.pid}.tmp`;
+			fs.writeFileSync(tmpPath, content);
+			fs.renameSync(tmpPath, filePath);
+		} catch {
+			// A read-only cache must never break a launch
+		}
+	}
+}
@@ -0,0 +1,120 @@
+/**
+ * @author Luuxis
+ * Luuxis License v1.0 (voir fichier LICENSE pour les détails en FR/EN)
+ */
+
+import os from 'os';
+import type { ArgumentRule, LibraryRule, RuleFeatures } from '../types.js';
+
+export type { RuleFeatures };
+
+/** Maps Node.js platforms to Mojang's OS names */
+const OS_NAMES: Record<string, string> = {
+	win32: 'windows',
+	darwin: 'osx',
+	linux: 'linux'
+};
+
+/** Names a Mojang rule may use for each Node.js architecture */
+const ARCH_NAMES: Record<string, string[]> = {
+	ia32: ['x86', 'x32', 'i386'],
+	x64: ['x86_64', 'amd64', 'x64'],
+	arm: ['arm', 'arm32'],
+	arm64: ['arm64', 'aarch64']
+};
+
+/**
+ * Evaluates Mojang rules the way the vanilla launcher does: nothing is
+ * allowed by default, and each rule that applies (its `os` and `features`
+ * all match) sets the outcome to its action, so the last one wins.
+ *
+ * @param rules    The `rules` of a library or argument
+ * @param features Launcher features, missing ones are false
+ * @returns true if the library or argument is to be used
+ */
+function evaluateRules(rules?: LibraryRule[], features: RuleFeatures = {}): boolean {
+	if (!rules || rules.length === 0) return true;
+
+	let allowed = false;
+	for (const rule of rules) {
+		if (matchesOs(rule.os) && matchesFeatures(rule.features, features)) {
+			allowed = (rule.action ?? 'allow') === 'allow';
+		}
+	}
+	return allowed;
+}
+
+/**
+ * Flattens `arguments.game` / `arguments.jvm`: plain strings are kept and
+ * conditional entries are expanded when their rules allow them.
+ *
+ * @param args     Arguments of the version JSON
+ * @param features Launcher features, missing ones are false
+ */
+function resolveArguments(args: Array<string | ArgumentRule> = [], features: RuleFeatures = {}): string[] {
+	const resolved: string[] = [];
+	for (const arg of args) {
+		if (typeof arg === 'string') {
+			resolved.push(arg);
+		} else if (arg && evaluateRules(arg.rules, features)) {
+			if (typeof arg.value === 'string') resolved.push(arg.value);
+			else if (Array.isArray(arg.value)) resolved.push(...arg.value);
+		}
+	}
+	return resolved;
+}
+
+function matchesOs(rule?: LibraryRule['os']): boolean {
+	if (!rule) return true;
+
+	if (rule.name && rule.name !== OS_NAMES[process.platform]) return false;
+	if (rule.arch && !(ARCH_NAMES[process.arch] ?? [process.arch]).includes(rule.arch)) return false;
+
+	const version = getOsVersion();
+	if (rule.version) {
+		try {
+			if (!new RegExp(rule.version).test(version)) return false;
+		} catch {
+			return false;
+		}
+	}
+	if (rule.versionRange) {
+		const { min, max } = rule.versionRange;
+		if (min && compareVersions(version, min) < 0) return false;
+		if (max && compareVersions(version, max) > 0) return false;
+	}
+	return true;
+}
+
+function matchesFeatures(rule: RuleFeatures | undefined, features: RuleFeatures): boolean {
+	if (!rule) return true;
+	return Object.entries(rule).every(([feature, value]) => (features[feature] ?? false) === value);
+}
+
+/**
+ * Version of the OS as Mojang rules expect it. On macOS, os.release() is the
+ * Darwin kernel version, converted to the macOS one (Darwin 19 = 10.15, 20 = 11).
+ */
+function getOsVersion(): string {
+	const release = os.release();
+	if (process.platform !== 'darwin') return release;
+
+	const [major, minor = 0] = release.split('.').map(Number);
+	return major >= 20 ? `${major - 9}.${minor}` : `10.${major - 4}.${minor}`;
+}
+
+/** Compares dotted numeric versions ("10.0.22631" vs "10.0") */
+function compareVersions(a: string, b: string): number {
+	const left = a.split('.').map(part => parseInt(part, 10) || 0);
+	const right = b.split('.').map(part => parseInt(part, 10) || 0);
+	for (let i = 0; i < Math.max(left.length, right.length); i++) {
+		const diff = (left[i] ?? 0) - (right[i] ?? 0);
+		if (diff !== 0) return Math.sign(diff);
+	}
+	return 0;
+}
+
+export {
+	evaluateRules,
+	resolveArguments
+};
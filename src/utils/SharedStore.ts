@@ -0,0 +1,144 @@
+/**
+ * @author Luuxis
+ * Luuxis License v1.0 (voir fichier LICENSE pour les détails en FR/EN)
+ */
+
+import fs from 'fs';
+import path from 'path';
+import HashIndex from './HashIndex.js';
+import { getFileHash } from './Index.js';
+import type { SharedStoreMode, SharedStoreOptions } from '../types.js';
+
+export type { SharedStoreMode, SharedStoreOptions };
+
+/**
+ * A content-addressed file store shared by several game roots. Objects are
+ * kept under `<store>/<sha1[0:2]>/<sha1>` and materialised into each root as
+ * hardlinks, reflinks (copy-on-write clones) or plain copies, so a library
+ * used by a dozen launchers only takes disk space once.
+ *
+ * In hardlink mode every root shares the same inode, so a file modified in
+ * place in one instance is modified in all of them and in the store. Objects
+ * are therefore re-hashed before being linked (unless unchanged since they
+ * were last verified, per `<store>/hash-index.json`) and evicted when they
+ * no longer match; use 'reflink' or 'copy' to keep instances independent.
+ *
+ * The store is disabled when no path is configured; every method is then a no-op.
+ */
+export default class SharedStore {
+	private readonly root: string | null;
+	private readonly mode: SharedStoreMode;
+	private readonly index: HashIndex | null;
+
+	constructor(options: SharedStoreOptions = {}) {
+		this.root = options.path ? path.resolve(options.path) : null;
+		this.mode = options.mode ?? 'hardlink';
+		this.index = this.root ? new HashIndex(path.join(this.root, 'hash-index.json')) : null;
+	}
+
+	public get enabled(): boolean {
+		return this.root !== null;
+	}
+
+	/** Location of an object in the store (whether or not it exists). */
+	public objectPath(sha1: string): string | null {
+		if (!this.root) return null;
+		const hash = sha1.toLowerCase();
+		return path.join(this.root, hash.substring(0, 2), hash);
+	}
+
+	public has(sha1: string): boolean {
+		const object = this.objectPath(sha1);
+		return object !== null && fs.existsSync(object);
+	}
+
+	/**
+	 * Places the object `sha1` at `target`, replacing whatever is there.
+	 * An object that no longer matches its SHA-1 (or the expected size) is
+	 * evicted from the store, so the caller downloads the file again.
+	 *
+	 * @param sha1   Expected SHA-1 of the file
+	 * @param target Destination path inside a game root
+	 * @param size   Expected size of the file
+	 * @returns true if the file was materialised from the store
+	 */
+	public async materialise(sha1: string, target: string, size?: number): Promise<boolean> {
+		const object = this.objectPath(sha1);
+		if (!object || !this.index) return false;
+
+		let stat: fs.Stats;
+		try { stat = fs.statSync(object); } catch { return false; }
+
+		const hash = sha1.toLowerCase();
+		if (size && stat.size !== size) return this.evict(object);
+		if (this.index.lookup(object, stat) !== hash) {
+			let actual: string;
+			try { actual = await getFileHash(object); } catch { return false; }
+			if (actual !== hash) return this.evict(object);
+			this.index.set(object, stat, hash);
+		}
+
+		const tmpPath = `${target}.${process.pid}.store`;
+		try {
+			fs.mkdirSync(path.dirname(target), { recursive: true, mode: 0o777 });
+			this.place(object, tmpPath);
+			fs.renameSync(tmpPath, target);
+			return true;
+		} catch {
+			try { fs.unlinkSync(tmpPath); } catch { /* ignore */ }
+			return false;
+		}
+	}
+
+	/**
+	 * Adds a file whose SHA-1 is already verified to the store.
+	 * Does nothing if the store already holds that object.
+	 *
+	 * @param sha1     SHA-1 of the file
+	 * @param filePath File to add
+	 */
+	public add(sha1: string, filePath: string): void {
+		const object = this.objectPath(sha1);
+		if (!object || fs.existsSync(object)) return;
+
+		const tmpPath = `${object}.${process.pid}.tmp`;
+		try {
+			fs.mkdirSync(path.dirname(object), { recursive: true });
+			this.place(filePath, tmpPath);
+			fs.renameSync(tmpPath, object);
+			this.index?.set(object, fs.statSync(object), sha1.toLowerCase());
+		} catch {
+			// A read-only or full store must never break a launch
+			try { fs.unlinkSync(tmpPath); } catch { /* ignore */ }
+		}
+	}
+
+	/** Writes the record of verified objects back to the store. */
+	public save(): void {
+		this.index?.save();
+	}
+
+	/** Removes a damaged object; always returns false (nothing materialised). */
+	private evict(object: string): false {
+		try { fs.unlinkSync(object); } catch { /* read-only store */ }
+		this.index?.delete(object);
+		return false;
+	}
+
+	/**
+	 * Creates `destination` from `source` according to the mode. Hardlinks
+	 * fall back to a copy across volumes; reflinks fall back to a copy on
+	 * file systems without copy-on-write support.
+	 */
+	private place(source: string, destination: string): void {
+		if (this.mode === 'hardlink') {
+			try {
+				fs.linkSync(source, destination);
+				return;
+			} catch { /* other volume, or links not supported */ }
+		}
+
+		const flags = this.mode === 'reflink' ? fs.constants.COPYFILE_FICLONE : 0;
+		fs.copyFileSync(source, destination, flags);
+	}
+}
@@ -0,0 +1,106 @@
+/**
+ * @author Luuxis
+ * Luuxis License v1.0 (voir fichier LICENSE pour les détails en FR/EN)
+ */
+
+import { EventEmitter } from 'events';
+
+/**
+ * Shared pause switch and bandwidth limit for every Downloader of a launch.
+ * Downloaders call consume() for each chunk they receive; the call resolves
+ * once the chunk fits in the bandwidth budget and the transfer is not paused.
+ *
+ * Emits:
+ *  - "pause" / "resume" when the state changes
+ */
+export default class TransferControl extends EventEmitter {
+	private maxSpeed: number;
+	private nextSlot = 0;
+	private gate: Promise<void> | null = null;
+	private release: (() => void) | null = null;
+
+	/**
+	 * @param maxSpeed Bandwidth limit in bytes per second, 0 for unlimited
+	 */
+	constructor(maxSpeed: number = 0) {
+		super();
+		this.maxSpeed = Math.max(0, maxSpeed);
+	}
+
+	public get paused(): boolean {
+		return this.gate !== null;
+	}
+
+	public get speedLimit(): number {
+		return this.maxSpeed;
+	}
+
+	/**
+	 * Changes the bandwidth limit, taking effect on the next chunk.
+	 *
+	 * @param bytesPerSecond New limit, 0 for unlimited
+	 */
+	public setMaxSpeed(bytesPerSecond: number): void {
+		this.maxSpeed = Math.max(0, bytesPerSecond);
+		this.nextSlot = 0;
+	}
+
+	/** Holds every transfer at its next chunk until resume() is called. */
+	public pause(): void {
+		if (this.gate) return;
+		this.gate = new Promise<void>(resolve => { this.release = resolve; });
+		this.emit('pause');
+	}
+
+	public resume(): void {
+		if (!this.gate) return;
+		const release = this.release!;
+		this.gate = null;
+		this.release = null;
+		this.nextSlot = 0;
+		release();
+		this.emit('resume');
+	}
+
+	/**
+	 * Waits until `bytes` may be transferred: while paused, then for as long
+	 * as the bandwidth limit requires. Rejects as soon as `signal` aborts.
+	 *
+	 * @param bytes  Size of the chunk about to be transferred
+	 * @param signal Optional cancellation signal
+	 */
+	public async consume(bytes: number, signal?: AbortSignal): Promise<void> {
+		while (this.gate) await abortable(this.gate, signal);
+		if (signal?.aborted) throw abortReason(signal);
+		if (this.maxSpeed <= 0) return;
+
+		// Every chunk reserves the next free slot of the budget, so concurrent
+		// downloads share the limit instead of each getting the full amount
+		const now = Date.now();
+		const start = Math.max(now, this.nextSlot);
+		this.nextSlot = start + (bytes / this.maxSpeed) * 1000;
+
+		const delay = start - now;
+		if (delay > 0) await abortable(new Promise<void>(resolve => setTimeout(resolve, delay)), signal);
+	}
+}
+
+/** The error a cancelled operation rejects with. */
+export function abortReason(signal: AbortSignal): Error {
+	return signal.reason instanceof Error ? signal.reason : new Error('Download cancelled');
+}
+
+/** Races a promise against an abort signal. */
+export function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+	if (!signal) return promise;
+	if (signal.aborted) return Promise.reject(abortReason(signal));
+
+	return new Promise<T>((resolve, reject) => {
+		const onAbort = () => reject(abortReason(signal));
+		signal.addEventListener('abort', onAbort, { once: true });
+		promise.then(
+			value => { signal.removeEventListener('abort', onAbort); resolve(value); },
+			err => { signal.removeEventListener('abort', onAbort); reject(err); }
+		);
+	});
+}
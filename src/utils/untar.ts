@@ -0,0 +1,313 @@
+/**
+ * @author Luuxis
+ * Luuxis License v1.0 (voir fichier LICENSE pour les détails en FR/EN)
+ */
+
+import fs from 'fs';
+import path from 'path';
+import zlib from 'zlib';
+
+/** Header fields of the entry being extracted */
+interface TarEntry {
+	name: string;
+	type: string;
+	mode: number;
+	linkName: string;
+	remaining: number;
+	padding: number;
+	fd: number | null;
+	/** Data of pax / GNU long-name entries, applied to the next entry */
+	data: Buffer[] | null;
+}
+
+const BLOCK = 512;
+
+/**
+ * Extracts a .tar.gz archive into `destination`, keeping file permissions,
+ * symbolic links and hard links. Supports ustar, pax and GNU long names.
+ * Entries pointing outside the destination are rejected: paths escaping it,
+ * symbolic links to absolute paths or outside it (following the links
+ * already extracted), and entries that would be written through an existing
+ * link leading outside it.
+ *
+ * @param archive     Path of the .tar.gz file
+ * @param destination Folder to extract into (created if missing)
+ */
+export default async function untar(archive: string, destination: string): Promise<void> {
+	const extractor = new TarExtractor(path.resolve(destination));
+	const input = fs.createReadStream(archive).pipe(zlib.createGunzip());
+	try {
+		for await (const chunk of input) extractor.write(chunk as Buffer);
+	} finally {
+		extractor.close();
+	}
+}
+
+class TarExtractor {
+	private readonly destination: string;
+	/** The destination with its own symbolic links resolved */
+	private readonly realDestination: string;
+	private pending: Buffer = Buffer.alloc(0);
+	private entry: TarEntry | null = null;
+	/** Overrides from the last pax header or GNU long name/link entry */
+	private next: { name?: string; linkName?: string; size?: number } = {};
+	private ended = false;
+
+	constructor(destination: string) {
+		this.destination = destination;
+		fs.mkdirSync(destination, { recursive: true });
+		this.realDestination = fs.realpathSync(destination);
+	}
+
+	public write(chunk: Buffer): void {
+		if (this.ended) return;
+		this.pending = this.pending.length ? Buffer.concat([this.pending, chunk]) : chunk;
+
+		while (!this.ended) {
+			if (this.entry) {
+				if (!this.consumeData()) return;
+				continue;
+			}
+
+			if (this.pending.length < BLOCK) return;
+			const header = this.pending.subarray(0, BLOCK);
+			this.pending = this.pending.subarray(BLOCK);
+
+			// Two zero blocks end the archive
+			if (header.every(byte => byte === 0)) {
+				this.ended = true;
+				return;
+			}
+			this.startEntry(header);
+		}
+	}
+
+	/** Closes a file left open by a truncated archive. */
+	public close(): void {
+		if (this.entry?.fd != null) fs.closeSync(this.entry.fd);
+		this.entry = null;
+	}
+
+	private startEntry(header: Buffer): void {
+		const type = String.fromCharCode(header[156] || 0x30);
+		const prefix = readString(header, 345, 155);
+		let name = readString(header, 0, 100);
+		if (prefix && header.toString('latin1', 257, 262) === 'ustar') name = `${prefix}/${name}`;
+
+		let size = readNumber(header, 124, 12);
+		let linkName = readString(header, 157, 100);
+
+		// Metadata entries only describe the entry that follows them
+		const isMeta = type === 'x' || type === 'L' || type === 'K' || type === 'g';
+		if (!isMeta) {
+			name = this.next.name ?? name;
+			linkName = this.next.linkName ?? linkName;
+			size = this.next.size ?? size;
+			this.next = {};
+		}
+
+		const entry: TarEntry = {
+			name,
+			type,
+			mode: readNumber(header, 100, 8) & 0o7777,
+			linkName,
+			remaining: size,
+			padding: (BLOCK - (size % BLOCK)) % BLOCK,
+			fd: null,
+			data: isMeta ? [] : null
+		};
+
+		// Links and folders carry no data, whatever the size field says
+		if (type === '1' || type === '2' || type === '5') {
+			entry.remaining = 0;
+			entry.padding = 0;
+		}
+
+		if (!isMeta) this.createEntry(entry);
+		this.entry = entry;
+	}
+
+	private createEntry(entry: TarEntry): void {
+		const target = this.resolve(entry.name);
+		if (!target || !this.isContained(target)) return;
+
+		switch (entry.type) {
+			case '5':
+				fs.mkdirSync(target, { recursive: true });
+				// Keep folders writable so their content can still be extracted
+				fs.chmodSync(target, (entry.mode || 0o755) | 0o700);
+				return;
+
+			case '2': {
+				if (path.isAbsolute(entry.linkName)) return;
+				fs.mkdirSync(path.dirname(target), { recursive: true });
+				const linkTarget = resolveReal(path.dirname(target), entry.linkName);
+				if (!linkTarget || !isWithin(linkTarget, this.realDestination)) return;
+				fs.rmSync(target, { force: true });
+				fs.symlinkSync(entry.linkName, target);
+				return;
+			}
+
+			case '1': {
+				const source = this.resolve(entry.linkName);
+				if (!source || !this.isContained(source)) return;
+				fs.mkdirSync(path.dirname(target), { recursive: true });
+				fs.rmSync(target, { force: true });
+				try {
+					fs.linkSync(source, target);
+				} catch {
+					fs.copyFileSync(source, target);
+				}
+				return;
+			}
+
+			case '0':
+			case '7':
+				fs.mkdirSync(path.dirname(target), { recursive: true });
+				fs.rmSync(target, { force: true });
+				entry.fd = fs.openSync(target, 'w', entry.mode || 0o644);
+				// The umask may have dropped bits of the mode given to open()
+				fs.fchmodSync(entry.fd, entry.mode || 0o644);
+				return;
+
+			default:
+				// Character/block devices, FIFOs...: skipped
+				return;
+		}
+	}
+
+	/**
+	 * Feeds pending bytes to the current entry.
+	 * @returns false when more input is needed
+	 */
+	private consumeData(): boolean {
+		const entry = this.entry!;
+
+		if (entry.remaining > 0) {
+			const length = Math.min(entry.remaining, this.pending.length);
+			if (length === 0) return false;
+
+			const data = this.pending.subarray(0, length);
+			if (entry.fd !== null) fs.writeSync(entry.fd, data);
+			else if (entry.data) entry.data.push(Buffer.from(data));
+
+			entry.remaining -= length;
+			this.pending = this.pending.subarray(length);
+			if (entry.remaining > 0) return false;
+		}
+
+		if (entry.padding > 0) {
+			const length = Math.min(entry.padding, this.pending.length);
+			entry.padding -= length;
+			this.pending = this.pending.subarray(length);
+			if (entry.padding > 0) return false;
+		}
+
+		this.finishEntry(entry);
+		this.entry = null;
+		return true;
+	}
+
+	private finishEntry(entry: TarEntry): void {
+		if (entry.fd !== null) {
+			fs.closeSync(entry.fd);
+			return;
+		}
+		if (!entry.data) return;
+
+		const data = Buffer.concat(entry.data);
+		if (entry.type === 'L') this.next.name = data.toString('utf-8').replace(/\0.*$/s, '');
+		else if (entry.type === 'K') this.next.linkName = data.toString('utf-8').replace(/\0.*$/s, '');
+		else if (entry.type === 'x') Object.assign(this.next, parsePax(data));
+	}
+
+	/** Absolute path of an entry, or null if it escapes the destination. */
+	private resolve(name: string): string | null {
+		const target = path.resolve(this.destination, name);
+		return isWithin(target, this.destination) ? target : null;
+	}
+
+	/**
+	 * Whether a path stays inside the destination once the links already
+	 * extracted are followed: its closest existing ancestor (or itself) is
+	 * resolved, as writing below it would go wherever that leads.
+	 */
+	private isContained(target: string): boolean {
+		let existing = target;
+		while (!fs.existsSync(existing)) existing = path.dirname(existing);
+		return isWithin(fs.realpathSync(existing), this.realDestination);
+	}
+}
+
+/**
+ * Resolves a symbolic link target the way the file system will, following
+ * the links already extracted. Returns null when it cannot be known yet:
+ * `..` applied to something that is not an existing folder (a file, a
+ * dangling link or a missing entry) could be turned into a link later.
+ */
+function resolveReal(from: string, linkName: string): string | null {
+	let current = fs.realpathSync(from);
+	for (const part of linkName.split(/[\\/]+/)) {
+		if (!part || part === '.') continue;
+		if (part === '..') {
+			let stat: fs.Stats | null = null;
+			try { stat = fs.statSync(current); } catch { /* missing */ }
+			if (!stat?.isDirectory()) return null;
+			current = path.dirname(current);
+			continue;
+		}
+
+		current = path.join(current, part);
+		try {
+			current = fs.realpathSync(current);
+		} catch {
+			// Not extracted yet is fine; a dangling link is not
+			try { if (fs.lstatSync(current).isSymbolicLink()) return null; } catch { /* missing */ }
+		}
+	}
+	return current;
+}
+
+function isWithin(target: string, folder: string): boolean {
+	return target === folder || target.startsWith(folder + path.sep);
+}
+
+function readString(buffer: Buffer, offset: number, length: number): string {
+	const end = buffer.indexOf(0, offset);
+	return buffer.toString('utf-8', offset, end === -1 || end > offset + length ? offset + length : end);
+}
+
+/** Reads an octal field, or a base-256 one for sizes above 8 GB. */
+function readNumber(buffer: Buffer, offset: number, length: number): number {
+	if (buffer[offset] & 0x80) {
+		let value = buffer[offset] & 0x7f;
+		for (let i = 1; i < length; i++) value = value * 256 + buffer[offset + i];
+		return value;
+	}
+	const text = readString(buffer, offset, length).trim();
+	return text ? parseInt(text, 8) : 0;
+}
+
+/** Parses pax records ("<length> <key>=<value>\n"). */
+function parsePax(data: Buffer): { name?: string; linkName?: string; size?: number } {
+	const result: { name?: string; linkName?: string; size?: number } = {};
+	let offset = 0;
+
+	while (offset < data.length) {
+		const space = data.indexOf(0x20, offset);
+		if (space === -1) break;
+		const length = parseInt(data.toString('utf-8', offset, space), 10);
+		if (!length) break;
+
+		const record = data.toString('utf-8', space + 1, offset + length - 1);
+		const separator = record.indexOf('=');
+		const key = record.substring(0, separator);
+		const value = record.substring(separator + 1);
+
+		if (key === 'path') result.name = value;
+		else if (key === 'linkpath') result.linkName = value;
+		else if (key === 'size') result.size = parseInt(value, 10);
+		offset += length;
+	}
+	return result;
+}
@@ -0,0 +1,7 @@
+/**
+ * @author Luuxis
+ * Luuxis License v1.0 (voir fichier LICENSE pour les détails en FR/EN)
+ */
+
+/** Version of minecraft-java-core. Generated from package.json by scripts/write-version.cjs. */
+export const PACKAGE_VERSION = '4.2.8';